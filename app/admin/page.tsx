@@ -18,6 +18,7 @@ import {
   AlertTriangle
 } from 'lucide-react'
 import { UserProfile } from '@/lib/database.types'
+import { ChunkingProfilesCard } from '@/components/chunking-profiles'
 
 export default function AdminDashboard() {
   const { user, loading, profileLoading, isAdmin } = useAuth()
@@ -133,7 +134,7 @@ export default function AdminDashboard() {
           Admin Dashboard
         </h1>
         <p className="text-muted-foreground">
-          Manage user accounts and permissions
+          Manage user accounts, permissions and chunking profiles
         </p>
       </div>
 
@@ -298,6 +299,8 @@ export default function AdminDashboard() {
           )}
         </CardContent>
       </Card>
+
+      <ChunkingProfilesCard />
     </div>
   )
 }
\ No newline at end of file
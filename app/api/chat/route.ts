@@ -1,35 +1,69 @@
 import { openai } from '@ai-sdk/openai';
-import { streamText, UIMessage, convertToModelMessages } from 'ai';
+import { streamText, convertToModelMessages } from 'ai';
 import { documentProcessor } from '@/utils/langchain-processing';
-import { RAG_SYSTEM_PROMPT, createRAGPrompt } from '@/utils/prompts';
+import { RAG_SYSTEM_PROMPT, createRAGPrompt, withConversationSummary } from '@/utils/prompts';
+import { createSupabaseServerClient } from '@/lib/supabase-server';
+import { parseSearchFilters, SearchFilters } from '@/lib/search-filters';
+import { resolveRetrievalSettings, RetrievalSettings } from '@/lib/retrieval-settings';
+import { ChatMessage, ChatMessageMetadata, condenseQuery, messageText } from '@/utils/query-rewriting';
+import { allocateTokenBudget, fitHistory, MAX_CONTEXT_CHUNKS } from '@/utils/chat-context';
+import { CHAT_MODEL, countTokens } from '@/utils/token-counting';
 
 // Allow streaming responses up to 30 seconds
 export const maxDuration = 30;
 
 export async function POST(req: Request) {
   try {
-    const { messages }: { messages: UIMessage[] } = await req.json();
+    // Retrieval settings (see lib/retrieval-settings.ts) may be sent along
+    const body: { messages: ChatMessage[]; filters?: SearchFilters } & Partial<Record<keyof RetrievalSettings, unknown>> = await req.json();
+    const { messages } = body;
+    // Restricts retrieval, e.g. to some documents ("only search in: …")
+    const filters = parseSearchFilters(body.filters);
 
     // Get the last user message for context retrieval
     const lastMessage = messages[messages.length - 1];
     
     // Extract text content from the message parts
-    let userQuery = '';
-    if (lastMessage && lastMessage.parts) {
-      const textParts = lastMessage.parts.filter(part => part.type === 'text');
-      userQuery = textParts.map(part => part.text).join(' ');
-    }
+    const userQuery = lastMessage?.parts ? messageText(lastMessage) : '';
+    const settings = resolveRetrievalSettings(body);
+
+    // Tokens for the answer, the retrieved context and the earlier messages
+    const budget = allocateTokenBudget(
+      CHAT_MODEL,
+      [RAG_SYSTEM_PROMPT, createRAGPrompt('[context]', userQuery)],
+      settings.contextTokens
+    );
+    let contextTokens = 0;
 
     let contextualMessages = [...messages];
+    const metadata: ChatMessageMetadata = {};
     
     if (userQuery && userQuery.trim()) {
       try {
+        // Follow-up questions are searched as a standalone query built from the conversation
+        const searchQuery = await condenseQuery(messages);
+        if (searchQuery !== userQuery.trim()) {
+          metadata.searchQuery = searchQuery;
+        }
+
         // Retrieve relevant context from the knowledge base
-        console.log('Retrieving context for:', userQuery);
-        const context = await documentProcessor.getRelevantContext(userQuery, 3);
+        console.log('Retrieving context for:', searchQuery);
+        // As many of the best matches as fit into the context budget
+        const { context, sources, generatedQueries } = await documentProcessor.getRelevantContextWithSources(searchQuery, MAX_CONTEXT_CHUNKS, {
+          ...settings,
+          contextTokens: budget.context,
+          filters,
+          supabase: await createSupabaseServerClient(),
+        });
+        if (generatedQueries.length > 0) {
+          metadata.generatedQueries = generatedQueries;
+        }
+        // Exactly the chunks in the context, so the sidebar matches the answer
+        metadata.sources = sources;
         
         if (context) {
           console.log('Found relevant context, enhancing prompt');
+          contextTokens = countTokens(context, CHAT_MODEL);
           
           // Create an enhanced version of the last message with context using proper prompt template
           const enhancedContent = createRAGPrompt(context, userQuery);
@@ -53,13 +87,25 @@ export async function POST(req: Request) {
       }
     }
 
+    // Older messages that do not fit next to the context are summarized or left out
+    const history = await fitHistory(
+      contextualMessages.slice(0, -1),
+      budget.history + budget.context - contextTokens,
+      CHAT_MODEL
+    );
+
     const result = streamText({
-      model: openai('gpt-4o'),
-      system: RAG_SYSTEM_PROMPT,
-      messages: convertToModelMessages(contextualMessages),
+      model: openai(CHAT_MODEL),
+      system: withConversationSummary(RAG_SYSTEM_PROMPT, history.summary),
+      messages: convertToModelMessages([...history.messages, ...contextualMessages.slice(-1)]),
+      maxOutputTokens: budget.answer,
     });
 
-    return result.toUIMessageStreamResponse();
+    // The client shows the search query (and generated queries) under the
+    // answer and the sources next to it
+    return result.toUIMessageStreamResponse<ChatMessage>({
+      messageMetadata: ({ part }) => part.type === 'start' ? metadata : undefined,
+    });
   } catch (error) {
     console.error('Chat API error:', error);
     return new Response('Internal Server Error', { status: 500 });
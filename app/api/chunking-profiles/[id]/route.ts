@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseServerClient, getAdminUser } from '@/lib/supabase-server';
+import { toChunkingSettings, validateChunkingSettings } from '@/lib/chunking-profiles';
+import {
+  countDocumentsUsingProfile,
+  deleteChunkingProfile,
+  getChunkingProfile,
+  updateChunkingProfile,
+} from '@/utils/chunking-profiles';
+
+// Update a chunking profile (admin only). Documents already chunked with it
+// keep their chunks until they are re-chunked.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createSupabaseServerClient();
+
+    if (!(await getAdminUser(supabase))) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const existing = await getChunkingProfile(supabase, id);
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Chunking profile not found' }, { status: 404 });
+    }
+
+    const { name, description, splitter, chunkSize, chunkOverlap, separators, isDefault } = await request.json();
+
+    if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+      return NextResponse.json({ error: 'Name must not be empty' }, { status: 400 });
+    }
+
+    if (isDefault === false && existing.is_default) {
+      return NextResponse.json(
+        { error: 'Make another profile the default instead' },
+        { status: 400 }
+      );
+    }
+
+    const settings = { ...toChunkingSettings(existing) };
+    if (splitter !== undefined) settings.splitter = splitter;
+    if (chunkSize !== undefined) settings.chunkSize = chunkSize;
+    if (chunkOverlap !== undefined) settings.chunkOverlap = chunkOverlap;
+    if (separators !== undefined) settings.separators = separators;
+
+    const invalid = validateChunkingSettings(settings);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    const profile = await updateChunkingProfile(supabase, id, {
+      ...settings,
+      ...(name !== undefined && { name: name.trim() }),
+      ...(description !== undefined && { description: description || null }),
+      ...(isDefault === true && { isDefault: true }),
+    });
+
+    return NextResponse.json({ success: true, profile });
+
+  } catch (error) {
+    console.error('Error updating chunking profile:', error);
+    return NextResponse.json(
+      { error: `Failed to update chunking profile: ${error instanceof Error ? error.message : 'Unknown error'}` },
+      { status: 500 }
+    );
+  }
+}
+
+// Delete a chunking profile (admin only); not the default or one documents were chunked with
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createSupabaseServerClient();
+
+    if (!(await getAdminUser(supabase))) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const profile = await getChunkingProfile(supabase, id);
+
+    if (!profile) {
+      return NextResponse.json({ error: 'Chunking profile not found' }, { status: 404 });
+    }
+
+    if (profile.is_default) {
+      return NextResponse.json(
+        { error: 'The default profile cannot be deleted' },
+        { status: 409 }
+      );
+    }
+
+    const documents = await countDocumentsUsingProfile(supabase, id);
+    if (documents > 0) {
+      return NextResponse.json(
+        { error: `${documents} document${documents !== 1 ? 's were' : ' was'} chunked with this profile; re-chunk ${documents !== 1 ? 'them' : 'it'} first` },
+        { status: 409 }
+      );
+    }
+
+    await deleteChunkingProfile(supabase, id);
+
+    return NextResponse.json({ success: true, id });
+
+  } catch (error) {
+    console.error('Error deleting chunking profile:', error);
+    return NextResponse.json(
+      { error: `Failed to delete chunking profile: ${error instanceof Error ? error.message : 'Unknown error'}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseServerClient, getActiveUser, getAdminUser } from '@/lib/supabase-server';
+import { validateChunkingSettings } from '@/lib/chunking-profiles';
+import { createChunkingProfile, listChunkingProfiles } from '@/utils/chunking-profiles';
+
+// Chunking profiles to pick from when uploading
+export async function GET() {
+  try {
+    const supabase = await createSupabaseServerClient();
+
+    if (!(await getActiveUser(supabase))) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const profiles = await listChunkingProfiles(supabase);
+
+    return NextResponse.json({ success: true, profiles });
+
+  } catch (error) {
+    console.error('Error fetching chunking profiles:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch chunking profiles',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Create a chunking profile (admin only)
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const user = await getAdminUser(supabase);
+
+    if (!user) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const { name, description, splitter, chunkSize, chunkOverlap, separators = [], isDefault = false } = await request.json();
+
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      return NextResponse.json({ error: 'Name is required' }, { status: 400 });
+    }
+
+    const invalid = validateChunkingSettings({ splitter, chunkSize, chunkOverlap, separators });
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    const profile = await createChunkingProfile(supabase, {
+      name: name.trim(),
+      description: description || null,
+      splitter,
+      chunkSize,
+      chunkOverlap,
+      separators,
+      isDefault: !!isDefault,
+    }, user.id);
+
+    return NextResponse.json({ success: true, profile }, { status: 201 });
+
+  } catch (error) {
+    console.error('Error creating chunking profile:', error);
+    return NextResponse.json(
+      { error: `Failed to create chunking profile: ${error instanceof Error ? error.message : 'Unknown error'}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import { after, NextRequest, NextResponse } from 'next/server';
+import { createSupabaseServerClient, getActiveUser } from '@/lib/supabase-server';
+import { getDocumentRecord } from '@/utils/document-catalog';
+import { resolveChunkingProfile } from '@/utils/chunking-profiles';
+import { createIngestionJob, runIngestionJob } from '@/utils/ingestion-jobs';
+
+// Re-chunking continues in the background after the response; allow it up to 5 minutes
+export const maxDuration = 300;
+
+// Split a document again with another chunking profile. The old chunks stay
+// searchable until the new ones are stored by the ingestion job.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const user = await getActiveUser(supabase);
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const { chunkingProfileId } = await request.json();
+
+    const record = await getDocumentRecord(supabase, id);
+
+    if (!record) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+
+    if (record.status !== 'ready') {
+      return NextResponse.json(
+        { error: 'Document is not ready yet' },
+        { status: 409 }
+      );
+    }
+
+    // Without an ID the default profile is used
+    const chunkingProfile = await resolveChunkingProfile(supabase, chunkingProfileId);
+    if (chunkingProfileId && !chunkingProfile) {
+      return NextResponse.json({ error: 'Chunking profile not found' }, { status: 400 });
+    }
+
+    const job = await createIngestionJob(supabase, {
+      kind: 'rechunk',
+      documentId: id,
+      filename: record.filename,
+      createdBy: user.id,
+    });
+
+    after(() => runIngestionJob(supabase, job.id, {
+      kind: 'rechunk',
+      documentId: id,
+      chunkingProfile,
+    }));
+
+    return NextResponse.json({
+      success: true,
+      jobId: job.id,
+      id,
+      filename: record.filename,
+      message: `Queued re-chunking of ${record.filename} with ${chunkingProfile?.name ?? 'the default settings'}`,
+    }, { status: 202 });
+
+  } catch (error) {
+    console.error('Error re-chunking document:', error);
+    return NextResponse.json(
+      { error: `Failed to re-chunk document: ${error instanceof Error ? error.message : 'Unknown error'}` },
+      { status: 500 }
+    );
+  }
+}
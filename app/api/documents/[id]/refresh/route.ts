@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseServerClient, getActiveUser } from '@/lib/supabase-server';
+import { getDocumentRecord } from '@/utils/document-catalog';
+import { refreshWebsiteDocument } from '@/utils/website-refresh';
+
+// Re-fetching and re-embedding a changed page can take a while
+export const maxDuration = 300;
+
+// Check a website document for changes now, regardless of its schedule
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createSupabaseServerClient();
+
+    if (!(await getActiveUser(supabase))) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const record = await getDocumentRecord(supabase, id);
+
+    if (!record) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+
+    if (record.source_type !== 'website' || !record.url) {
+      return NextResponse.json(
+        { error: 'Only website documents can be refreshed' },
+        { status: 400 }
+      );
+    }
+
+    if (record.status !== 'ready') {
+      return NextResponse.json(
+        { error: 'Document is not ready yet' },
+        { status: 409 }
+      );
+    }
+
+    const result = await refreshWebsiteDocument(supabase, record);
+    const document = await getDocumentRecord(supabase, id);
+
+    return NextResponse.json({ success: result.outcome !== 'failed', result, document });
+
+  } catch (error) {
+    console.error('Error refreshing document:', error);
+    return NextResponse.json(
+      { 
+        error: 'Failed to refresh document',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
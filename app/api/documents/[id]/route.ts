@@ -0,0 +1,266 @@
+import { after, NextRequest, NextResponse } from 'next/server';
+import { createSupabaseServerClient, getActiveUser } from '@/lib/supabase-server';
+import { documentProcessor } from '@/utils/langchain-processing';
+import { findExtractor, getSupportedExtensions } from '@/utils/extractors';
+import {
+  deleteDocumentRecord,
+  DocumentRecordUpdate,
+  getDocumentRecord,
+  REFRESH_SCHEDULES,
+  updateDocumentRecord,
+} from '@/utils/document-catalog';
+import { parseCollection, parseTags } from '@/lib/document-labels';
+import { createIngestionJob, deleteAttachments, runIngestionJob, updateAttachmentLabels } from '@/utils/ingestion-jobs';
+import { resolveChunkingProfile } from '@/utils/chunking-profiles';
+
+// Replacements are ingested in the background after the response; allow up to 5 minutes
+export const maxDuration = 300;
+
+// Document details from the catalog
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createSupabaseServerClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const document = await getDocumentRecord(supabase, id);
+
+    if (!document) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, document });
+
+  } catch (error) {
+    console.error('Error fetching document:', error);
+    return NextResponse.json(
+      { 
+        error: 'Failed to fetch document',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Update editable catalog fields: a website's refresh schedule, and the
+// collection and tags of any document. Label changes are written to the
+// document's chunks as well, so retrieval filters see them right away, and
+// an email passes them on to its attachments.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createSupabaseServerClient();
+
+    if (!(await getActiveUser(supabase))) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const updates: DocumentRecordUpdate = {};
+
+    if ('refreshSchedule' in body && !REFRESH_SCHEDULES.includes(body.refreshSchedule)) {
+      return NextResponse.json(
+        { error: `Invalid refresh schedule. Use one of: ${REFRESH_SCHEDULES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const record = await getDocumentRecord(supabase, id);
+
+    if (!record) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+
+    if ('refreshSchedule' in body) {
+      if (record.source_type !== 'website') {
+        return NextResponse.json(
+          { error: 'Only website documents can be refreshed' },
+          { status: 400 }
+        );
+      }
+      updates.refresh_schedule = body.refreshSchedule;
+    }
+
+    if ('collection' in body || 'tags' in body) {
+      // The ingestion job would store the chunks with the labels it started with
+      if (record.status === 'processing') {
+        return NextResponse.json(
+          { error: 'The document is still being processed; edit it once it is ready' },
+          { status: 409 }
+        );
+      }
+
+      const labels = {
+        collection: 'collection' in body ? parseCollection(body.collection) : record.collection,
+        tags: 'tags' in body ? parseTags(body.tags) : record.tags,
+      };
+      await documentProcessor.updateDocumentLabels(id, labels);
+      await updateAttachmentLabels(supabase, id, labels);
+      Object.assign(updates, labels);
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json(
+        { error: 'Nothing to update. Send refreshSchedule, collection or tags' },
+        { status: 400 }
+      );
+    }
+
+    const document = await updateDocumentRecord(supabase, id, updates);
+
+    return NextResponse.json({ success: true, document });
+
+  } catch (error) {
+    console.error('Error updating document:', error);
+    return NextResponse.json(
+      { 
+        error: 'Failed to update document',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Remove a document and all of its chunks from the knowledge base
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createSupabaseServerClient();
+
+    if (!(await getActiveUser(supabase))) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    // The attachments of an email go with it
+    const deletedChunks = await deleteAttachments(supabase, id) + await documentProcessor.deleteDocument(id);
+    const deletedRecord = await deleteDocumentRecord(supabase, id);
+
+    if (deletedChunks === 0 && !deletedRecord) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      id,
+      deletedChunks,
+    });
+
+  } catch (error) {
+    console.error('Error deleting document:', error);
+    return NextResponse.json(
+      { 
+        error: 'Failed to delete document',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Replace a document with a new version of the file. The old chunks stay
+// searchable until the new ones are stored by the ingestion job. The new
+// version keeps the document's chunking profile unless another one is given;
+// a website replaced by a file is no longer refreshed.
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const user = await getActiveUser(supabase);
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const formData = await request.formData();
+    const file = formData.get('file') as File;
+
+    if (!file) {
+      return NextResponse.json(
+        { error: 'No file provided' },
+        { status: 400 }
+      );
+    }
+
+    const extractor = findExtractor(file.name, file.type);
+    if (!extractor) {
+      return NextResponse.json(
+        { error: `Unsupported file type. Supported formats: ${getSupportedExtensions().map(ext => `.${ext}`).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const record = await getDocumentRecord(supabase, id);
+    if (!record) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+
+    // Two jobs storing chunks for the same document would overwrite each other
+    if (record.status === 'processing') {
+      return NextResponse.json(
+        { error: 'The document is still being processed; replace it once it is ready' },
+        { status: 409 }
+      );
+    }
+
+    const chunkingProfileId = (formData.get('chunkingProfileId') as string | null) || record.chunking_profile_id;
+    const chunkingProfile = chunkingProfileId ? await resolveChunkingProfile(supabase, chunkingProfileId) : null;
+    if (chunkingProfileId && !chunkingProfile) {
+      return NextResponse.json({ error: 'Chunking profile not found' }, { status: 400 });
+    }
+
+    const buffer = Buffer.from(await file.arrayBuffer());
+
+    console.log(`Queueing replacement of document ${id} with ${file.name} (${buffer.length} bytes)`);
+
+    const job = await createIngestionJob(supabase, {
+      kind: 'replace',
+      documentId: id,
+      filename: file.name,
+      createdBy: user.id,
+    });
+
+    after(() => runIngestionJob(supabase, job.id, {
+      kind: 'replace',
+      documentId: id,
+      filename: file.name,
+      sourceType: extractor.sourceType,
+      mimeType: file.type || null,
+      buffer,
+      chunkingProfile,
+    }));
+
+    return NextResponse.json({
+      success: true,
+      jobId: job.id,
+      id,
+      filename: file.name,
+      message: `Queued replacement of ${record.filename} with ${file.name}`,
+    }, { status: 202 });
+
+  } catch (error) {
+    console.error('Error replacing document:', error);
+    return NextResponse.json(
+      { error: `Failed to replace document: ${error instanceof Error ? error.message : 'Unknown error'}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseServerClient, getAdminUser } from '@/lib/supabase-server';
+import { backfillCatalog } from '@/utils/catalog-backfill';
+
+// Lists every vector in the knowledge base; allow up to 5 minutes
+export const maxDuration = 300;
+
+// Add documents stored before the catalog existed to the catalog, and chunks
+// stored before the keyword index existed to the index (admin only).
+// `{ "reindex": true }` indexes the keywords of every document again.
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createSupabaseServerClient();
+
+    if (!(await getAdminUser(supabase))) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const result = await backfillCatalog(supabase, { reindex: body?.reindex === true });
+    return NextResponse.json({ success: true, ...result });
+
+  } catch (error) {
+    console.error('Catalog backfill error:', error);
+    return NextResponse.json(
+      { error: `Failed to backfill catalog: ${error instanceof Error ? error.message : 'Unknown error'}` },
+      { status: 500 }
+    );
+  }
+}
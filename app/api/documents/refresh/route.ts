@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseServerClient, createSupabaseServiceClient, getActiveUser } from '@/lib/supabase-server';
+import { refreshDueWebsites, WebsiteRefreshResult } from '@/utils/website-refresh';
+
+export const maxDuration = 300;
+
+// Scheduler entry point (e.g. Vercel Cron), authorized with CRON_SECRET.
+// Runs without a user session, so it uses the service-role client.
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const results = await refreshDueWebsites(createSupabaseServiceClient());
+    return NextResponse.json({ success: true, ...summarize(results), results });
+
+  } catch (error) {
+    console.error('Scheduled website refresh error:', error);
+    return NextResponse.json(
+      { error: `Failed to refresh websites: ${error instanceof Error ? error.message : 'Unknown error'}` },
+      { status: 500 }
+    );
+  }
+}
+
+// Run the due refreshes now, on behalf of a signed-in user
+export async function POST() {
+  try {
+    const supabase = await createSupabaseServerClient();
+
+    if (!(await getActiveUser(supabase))) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const results = await refreshDueWebsites(supabase);
+    return NextResponse.json({ success: true, ...summarize(results), results });
+
+  } catch (error) {
+    console.error('Website refresh error:', error);
+    return NextResponse.json(
+      { error: `Failed to refresh websites: ${error instanceof Error ? error.message : 'Unknown error'}` },
+      { status: 500 }
+    );
+  }
+}
+
+function summarize(results: WebsiteRefreshResult[]) {
+  return {
+    checked: results.length,
+    updated: results.filter(result => result.outcome === 'updated').length,
+    failed: results.filter(result => result.outcome === 'failed').length,
+  };
+}
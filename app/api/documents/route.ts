@@ -1,52 +1,41 @@
-import { NextResponse } from 'next/server';
-import { index } from '@/utils/pinecone';
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabase-server';
+import { DocumentSortField } from '@/lib/database.types';
+import { getCatalogStats, listDocumentRecords, MAX_PAGE_SIZE, SORT_FIELDS } from '@/utils/document-catalog';
 
-interface DocumentInfo {
-  id: string;
-  filename: string;
-  totalChunks: number;
-  url?: string;
-  source?: string;
-}
-
-export async function GET() {
+// List documents from the catalog, e.g. /api/documents?page=2&pageSize=20&sort=filename&order=asc
+export async function GET(request: NextRequest) {
   try {
-    // Query Pinecone to get all vectors with their metadata from the knowledge-base namespace
-    const queryResponse = await index.namespace('knowledge-base').query({
-      topK: 10000, // Large number to get all documents
-      includeMetadata: true,
-      vector: new Array(1536).fill(0), // Dummy vector since we want all documents
-    });
+    const supabase = await createSupabaseServerClient();
 
-    // Group chunks by filename to get unique documents
-    const documentsMap = new Map<string, DocumentInfo>();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
 
-    queryResponse.matches?.forEach((match) => {
-      if (match.metadata) {
-        const filename = match.metadata.filename as string;
-        const totalChunks = match.metadata.totalChunks as number;
-        const url = match.metadata.url as string | undefined;
-        const source = match.metadata.source as string | undefined;
-        
-        if (!documentsMap.has(filename)) {
-          documentsMap.set(filename, {
-            id: match.id,
-            filename,
-            totalChunks,
-            url,
-            source,
-          });
-        }
-      }
-    });
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1') || 1);
+    const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, parseInt(searchParams.get('pageSize') || '20') || 20));
+    const sortParam = searchParams.get('sort') as DocumentSortField | null;
+    const sort = sortParam && SORT_FIELDS.includes(sortParam) ? sortParam : 'created_at';
+    const order = searchParams.get('order') === 'asc' ? 'asc' : 'desc';
 
-    // Convert map to array
-    const documents = Array.from(documentsMap.values());
+    const [{ documents, count }, stats] = await Promise.all([
+      listDocumentRecords(supabase, { page, pageSize, sort, order }),
+      getCatalogStats(supabase),
+    ]);
 
     return NextResponse.json({
       success: true,
       documents,
-      count: documents.length,
+      count,
+      page,
+      pageSize,
+      totalPages: Math.max(1, Math.ceil(count / pageSize)),
+      sort,
+      order,
+      stats,
     });
 
   } catch (error) {
@@ -59,4 +48,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
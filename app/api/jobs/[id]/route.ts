@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabase-server';
+import { getIngestionJob } from '@/utils/ingestion-jobs';
+
+// Stage and progress of an ingestion job, polled by the upload page
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createSupabaseServerClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const job = await getIngestionJob(supabase, id);
+
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, job });
+
+  } catch (error) {
+    console.error('Error fetching ingestion job:', error);
+    return NextResponse.json(
+      { 
+        error: 'Failed to fetch job',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { documentProcessor } from '@/utils/langchain-processing';
+import { documentProcessor, RetrievedChunk } from '@/utils/langchain-processing';
+import { createSupabaseServerClient } from '@/lib/supabase-server';
+import { parseSearchFilters, searchFiltersFromParams } from '@/lib/search-filters';
+import { resolveRetrievalSettings } from '@/lib/retrieval-settings';
 
 export async function POST(request: NextRequest) {
   try {
-    const { query, maxResults = 5 } = await request.json();
+    const { query, maxResults = 5, filters: filtersInput, ...settingsInput } = await request.json();
+    const filters = parseSearchFilters(filtersInput);
+    const settings = resolveRetrievalSettings(settingsInput);
 
     if (!query) {
       return NextResponse.json(
@@ -12,20 +17,24 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    console.log(`Searching for: "${query}"`);
+    console.log(`Searching for: "${query}"`, filters);
 
     // Search for similar documents with scores
-    const results = await documentProcessor.searchWithScore(query, maxResults);
+    const { chunks, generatedQueries } = await documentProcessor.retrieve(query, maxResults, {
+      ...settings,
+      filters,
+      supabase: await createSupabaseServerClient(),
+    });
 
     // Format results for response
-    const formattedResults = results.map(([document, score]) => ({
-      content: document.pageContent,
-      metadata: document.metadata,
-      score,
-    }));
+    const formattedResults = formatResults(chunks);
 
     return NextResponse.json({
       query,
+      filters,
+      ...settings,
+      // What the query mode searched with besides the query, for debugging
+      generatedQueries,
       results: formattedResults,
       totalResults: formattedResults.length,
     });
@@ -39,11 +48,25 @@ export async function POST(request: NextRequest) {
   }
 }
 
+// Filters as query parameters (see searchFiltersFromParams), plus `keywordWeight`,
+// `reranker`, `queryMode`, `mmrLambda` and `maxChunksPerDocument`
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const query = searchParams.get('q');
     const maxResults = parseInt(searchParams.get('max') || '5');
+    const filters = searchFiltersFromParams(searchParams);
+    const numberParam = (name: string) => {
+      const value = searchParams.get(name);
+      return value ? parseFloat(value) : undefined;
+    };
+    const settings = resolveRetrievalSettings({
+      keywordWeight: numberParam('keywordWeight'),
+      mmrLambda: numberParam('mmrLambda'),
+      maxChunksPerDocument: numberParam('maxChunksPerDocument'),
+      reranker: searchParams.get('reranker') ?? undefined,
+      queryMode: searchParams.get('queryMode') ?? undefined,
+    });
 
     if (!query) {
       return NextResponse.json(
@@ -52,18 +75,22 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    console.log(`GET search for: "${query}"`);
+    console.log(`GET search for: "${query}"`, filters);
 
-    const results = await documentProcessor.searchWithScore(query, maxResults);
+    const { chunks, generatedQueries } = await documentProcessor.retrieve(query, maxResults, {
+      ...settings,
+      filters,
+      supabase: await createSupabaseServerClient(),
+    });
 
-    const formattedResults = results.map(([document, score]) => ({
-      content: document.pageContent,
-      metadata: document.metadata,
-      score,
-    }));
+    const formattedResults = formatResults(chunks);
 
     return NextResponse.json({
       query,
+      filters,
+      ...settings,
+      // What the query mode searched with besides the query, for debugging
+      generatedQueries,
       results: formattedResults,
       totalResults: formattedResults.length,
     });
@@ -75,4 +102,19 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}
+
+// `score` is the fused rank score of vector and keyword search; the scores of
+// the two searches are returned alongside where they found the chunk, and the
+// reranker's score where one ran (results are then ordered by it, unless MMR
+// moved chunks similar to better ones down)
+function formatResults(results: RetrievedChunk[]) {
+  return results.map(({ document, score, vectorScore, keywordScore, rerankScore }) => ({
+    content: document.pageContent,
+    metadata: document.metadata,
+    score,
+    vectorScore,
+    keywordScore,
+    rerankScore,
+  }));
+}
@@ -1,9 +1,16 @@
 import { NextResponse } from 'next/server';
 import { documentProcessor } from '@/utils/langchain-processing';
+import { createSupabaseServerClient } from '@/lib/supabase-server';
+import { parseSearchFilters } from '@/lib/search-filters';
+import { resolveRetrievalSettings } from '@/lib/retrieval-settings';
+import { ChatMessage, condenseQuery } from '@/utils/query-rewriting';
+import { MAX_CONTEXT_CHUNKS } from '@/utils/chat-context';
 
 export async function POST(request: Request) {
   try {
-    const { query } = await request.json();
+    // `history`: the chat messages before this question, so follow-ups are
+    // searched the same way the chat API searches them
+    const { query, history, filters, ...settings } = await request.json();
 
     if (!query || !query.trim()) {
       return NextResponse.json(
@@ -12,11 +19,24 @@ export async function POST(request: Request) {
       );
     }
 
-    // Get relevant context with sources
-    const { sources } = await documentProcessor.getRelevantContextWithSources(query, 3);
+    const searchQuery = Array.isArray(history) && history.length > 0
+      ? await condenseQuery([
+          ...history as ChatMessage[],
+          { id: 'question', role: 'user', parts: [{ type: 'text', text: query }] },
+        ])
+      : query.trim();
+
+    // The matches the chat's context would be filled with
+    const { sources, generatedQueries } = await documentProcessor.getRelevantContextWithSources(searchQuery, MAX_CONTEXT_CHUNKS, {
+      ...resolveRetrievalSettings(settings),
+      filters: parseSearchFilters(filters),
+      supabase: await createSupabaseServerClient(),
+    });
 
     return NextResponse.json({
       success: true,
+      ...(searchQuery !== query.trim() && { searchQuery }),
+      generatedQueries,
       sources,
     });
 
@@ -0,0 +1,102 @@
+import { after, NextRequest, NextResponse } from 'next/server';
+import { createSupabaseServerClient, getActiveUser } from '@/lib/supabase-server';
+import { createIngestionJob, runIngestionJob } from '@/utils/ingestion-jobs';
+import { resolveChunkingProfile } from '@/utils/chunking-profiles';
+import { ArchiveFile, readFolderUpload, readZipArchive } from '@/utils/archive';
+import { parseCollection, parseTags } from '@/lib/document-labels';
+
+// Every file of the archive is ingested in the background; allow it up to 5 minutes
+export const maxDuration = 300;
+
+// Accepts either a zip archive as `file`, or the files of a folder as `files`
+// with their relative paths in `paths` (same order). The collection defaults
+// to the archive name or the folder's top-level directory.
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const user = await getActiveUser(supabase);
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const formData = await request.formData();
+    const archive = formData.get('file') as File | null;
+    const folderFiles = formData.getAll('files') as File[];
+    const folderPaths = formData.getAll('paths') as string[];
+
+    if (!archive && folderFiles.length === 0) {
+      return NextResponse.json({ error: 'No archive or folder provided' }, { status: 400 });
+    }
+
+    if (archive && !archive.name.toLowerCase().endsWith('.zip')) {
+      return NextResponse.json({ error: 'Only .zip archives can be imported' }, { status: 400 });
+    }
+
+    if (!archive && folderPaths.length !== folderFiles.length) {
+      return NextResponse.json({ error: 'Each folder file needs its relative path' }, { status: 400 });
+    }
+
+    const chunkingProfileId = formData.get('chunkingProfileId') as string | null;
+    const chunkingProfile = await resolveChunkingProfile(supabase, chunkingProfileId);
+    if (chunkingProfileId && !chunkingProfile) {
+      return NextResponse.json({ error: 'Chunking profile not found' }, { status: 400 });
+    }
+
+    let files: ArchiveFile[];
+    try {
+      files = archive
+        ? await readZipArchive(Buffer.from(await archive.arrayBuffer()))
+        : readFolderUpload(await Promise.all(folderFiles.map(async (file, i) => ({
+            path: folderPaths[i],
+            buffer: Buffer.from(await file.arrayBuffer()),
+          }))));
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Unknown error' },
+        { status: 400 }
+      );
+    }
+
+    if (files.length === 0) {
+      return NextResponse.json({ error: 'The archive contains no files' }, { status: 400 });
+    }
+
+    const name = archive ? archive.name : files[0].path.split('/')[0];
+    const collection = parseCollection(formData.get('collection')) ?? parseCollection(name.replace(/\.zip$/i, '')) ?? name;
+    const tags = parseTags(formData.get('tags'));
+
+    console.log(`Queueing import of ${files.length} files from ${name} into collection ${collection}`);
+
+    const job = await createIngestionJob(supabase, {
+      kind: 'archive',
+      documentId: null,
+      filename: name,
+      createdBy: user.id,
+    });
+
+    after(() => runIngestionJob(supabase, job.id, {
+      kind: 'archive',
+      collection,
+      tags,
+      files,
+      createdBy: user.id,
+      chunkingProfile,
+    }));
+
+    return NextResponse.json({
+      success: true,
+      jobId: job.id,
+      filename: name,
+      collection,
+      message: `Queued import of ${files.length} files from ${name}`,
+    }, { status: 202 });
+
+  } catch (error) {
+    console.error('Archive import error:', error);
+    return NextResponse.json(
+      { error: `Failed to import archive: ${error instanceof Error ? error.message : 'Unknown error'}` },
+      { status: 500 }
+    );
+  }
+}
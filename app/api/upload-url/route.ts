@@ -1,5 +1,15 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { after, NextRequest, NextResponse } from 'next/server';
+import { createSupabaseServerClient, getActiveUser } from '@/lib/supabase-server';
+import { createDocumentRecord, REFRESH_SCHEDULES } from '@/utils/document-catalog';
+import { createIngestionJob, runIngestionJob } from '@/utils/ingestion-jobs';
+import { resolveChunkingProfile } from '@/utils/chunking-profiles';
 import { documentProcessor } from '@/utils/langchain-processing';
+import { previewUpload } from '@/utils/upload-preview';
+import { resolveCrawlOptions } from '@/lib/crawl-options';
+import { parseCollection, parseTags } from '@/lib/document-labels';
+
+// Ingestion continues in the background after the response; allow it up to 5 minutes
+export const maxDuration = 300;
 
 function isValidUrl(string: string): boolean {
   try {
@@ -12,7 +22,16 @@ function isValidUrl(string: string): boolean {
 
 export async function POST(request: NextRequest) {
   try {
-    const { url } = await request.json();
+    const supabase = await createSupabaseServerClient();
+    const user = await getActiveUser(supabase);
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { url, crawl, refreshSchedule = 'manual', chunkingProfileId, preview = false, ...labels } = await request.json();
+    const collection = parseCollection(labels.collection);
+    const tags = parseTags(labels.tags);
 
     if (!url || typeof url !== 'string') {
       return NextResponse.json(
@@ -29,18 +48,112 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    console.log(`Processing website URL: ${url}`);
+    if (!REFRESH_SCHEDULES.includes(refreshSchedule)) {
+      return NextResponse.json(
+        { error: `Invalid refresh schedule. Use one of: ${REFRESH_SCHEDULES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // Without an ID the default profile is used
+    const chunkingProfile = await resolveChunkingProfile(supabase, chunkingProfileId);
+    if (chunkingProfileId && !chunkingProfile) {
+      return NextResponse.json({ error: 'Chunking profile not found' }, { status: 400 });
+    }
+
+    // Dry run of the (start) page: fetch, extract and split, but create no
+    // catalog entry and embed nothing
+    if (preview) {
+      try {
+        const extracted = await documentProcessor.extractWebsite(url);
+        return NextResponse.json({
+          success: true,
+          preview: await previewUpload(supabase, {
+            filename: extracted.title,
+            sourceType: 'website',
+            extracted,
+            chunkingProfile,
+          }),
+        });
+      } catch (error) {
+        return NextResponse.json(
+          { error: `Preview failed: ${error instanceof Error ? error.message : 'Unknown error'}` },
+          { status: 422 }
+        );
+      }
+    }
 
-    // Process the website using LangChain
-    const result = await documentProcessor.processWebsite(url);
+    // Crawl mode: follow links from the URL and ingest each page as its own document
+    if (crawl) {
+      const options = resolveCrawlOptions(typeof crawl === 'object' ? crawl : {});
+      console.log(`Queueing website crawl: ${url}`, options);
+
+      const job = await createIngestionJob(supabase, {
+        kind: 'crawl',
+        documentId: null,
+        filename: url,
+        createdBy: user.id,
+      });
+
+      after(() => runIngestionJob(supabase, job.id, {
+        kind: 'crawl',
+        url,
+        options,
+        refreshSchedule,
+        collection,
+        tags,
+        createdBy: user.id,
+        chunkingProfile,
+      }));
+
+      return NextResponse.json({
+        success: true,
+        jobId: job.id,
+        filename: url,
+        url: url,
+        crawl: options,
+        message: `Queued crawl of ${url} (up to ${options.maxPages} pages, depth ${options.maxDepth})`,
+      }, { status: 202 });
+    }
+
+    console.log(`Queueing website URL: ${url}`);
+
+    // Register the website in the catalog; the filename becomes the page title once it is fetched
+    const record = await createDocumentRecord(supabase, {
+      filename: url,
+      source_type: 'website',
+      url,
+      mime_type: 'text/html',
+      uploaded_by: user.id,
+      refresh_schedule: refreshSchedule,
+      chunking_profile_id: chunkingProfile?.id,
+      collection: collection ?? undefined,
+      tags,
+    });
+
+    const job = await createIngestionJob(supabase, {
+      kind: 'url',
+      documentId: record.id,
+      filename: url,
+      createdBy: user.id,
+    });
+
+    // Fetch, split, embed and upsert once the response has been sent
+    after(() => runIngestionJob(supabase, job.id, {
+      kind: 'url',
+      documentId: record.id,
+      url,
+      chunkingProfile,
+    }));
 
     return NextResponse.json({
       success: true,
-      filename: result.filename,
-      chunks: result.totalChunks,
+      jobId: job.id,
+      id: record.id,
+      filename: url,
       url: url,
-      message: `Successfully processed ${result.totalChunks} chunks from ${url}`,
-    });
+      message: `Queued ${url} for processing`,
+    }, { status: 202 });
 
   } catch (error) {
     console.error('Website upload error:', error);
@@ -1,8 +1,25 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { after, NextRequest, NextResponse } from 'next/server';
+import { createSupabaseServerClient, getActiveUser } from '@/lib/supabase-server';
+import { findExtractor, getSupportedExtensions } from '@/utils/extractors';
+import { createDocumentRecord } from '@/utils/document-catalog';
+import { createIngestionJob, runIngestionJob } from '@/utils/ingestion-jobs';
+import { resolveChunkingProfile } from '@/utils/chunking-profiles';
 import { documentProcessor } from '@/utils/langchain-processing';
+import { previewUpload } from '@/utils/upload-preview';
+import { parseCollection, parseTags } from '@/lib/document-labels';
+
+// Ingestion continues in the background after the response; allow it up to 5 minutes
+export const maxDuration = 300;
 
 export async function POST(request: NextRequest) {
   try {
+    const supabase = await createSupabaseServerClient();
+    const user = await getActiveUser(supabase);
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
     const formData = await request.formData();
     const file = formData.get('file') as File;
 
@@ -14,29 +31,77 @@ export async function POST(request: NextRequest) {
     }
 
     // Check file type
-    const fileType = getFileType(file.name);
-    if (!fileType) {
+    const extractor = findExtractor(file.name, file.type);
+    if (!extractor) {
       return NextResponse.json(
-        { error: 'Unsupported file type. Only PDF and Markdown files are supported.' },
+        { error: `Unsupported file type. Supported formats: ${getSupportedExtensions().map(ext => `.${ext}`).join(', ')}` },
         { status: 400 }
       );
     }
 
+    // Without an ID the default profile is used
+    const chunkingProfileId = formData.get('chunkingProfileId') as string | null;
+    const chunkingProfile = await resolveChunkingProfile(supabase, chunkingProfileId);
+    if (chunkingProfileId && !chunkingProfile) {
+      return NextResponse.json({ error: 'Chunking profile not found' }, { status: 400 });
+    }
+
     // Read file content
     const buffer = Buffer.from(await file.arrayBuffer());
-    const content = fileType === 'markdown' ? buffer.toString('utf-8') : buffer;
+    const fileType = extractor.sourceType;
 
-    console.log(`Processing ${fileType} file: ${file.name} (${buffer.length} bytes)`);
+    // Dry run: extract and split, but create no catalog entry and embed nothing
+    if (formData.get('preview') === 'true') {
+      try {
+        const extracted = await documentProcessor.extractDocument(file.name, buffer, fileType);
+        const preview = await previewUpload(supabase, { filename: file.name, sourceType: fileType, extracted, chunkingProfile });
+        return NextResponse.json({ success: true, preview });
+      } catch (error) {
+        return NextResponse.json(
+          { error: `Preview failed: ${error instanceof Error ? error.message : 'Unknown error'}` },
+          { status: 422 }
+        );
+      }
+    }
 
-    // Process and store the document using LangChain
-    const result = await documentProcessor.processDocument(file.name, content, fileType);
+    console.log(`Queueing ${fileType} file: ${file.name} (${buffer.length} bytes)`);
+
+    // Register the document in the catalog before any chunks are stored
+    const record = await createDocumentRecord(supabase, {
+      filename: file.name,
+      source_type: fileType,
+      mime_type: file.type || undefined,
+      byte_size: buffer.length,
+      uploaded_by: user.id,
+      chunking_profile_id: chunkingProfile?.id,
+      collection: parseCollection(formData.get('collection')) ?? undefined,
+      tags: parseTags(formData.get('tags')),
+    });
+
+    const job = await createIngestionJob(supabase, {
+      kind: 'file',
+      documentId: record.id,
+      filename: file.name,
+      createdBy: user.id,
+    });
+
+    // Extract, split, embed and upsert once the response has been sent
+    after(() => runIngestionJob(supabase, job.id, {
+      kind: 'file',
+      documentId: record.id,
+      filename: file.name,
+      sourceType: fileType,
+      buffer,
+      chunkingProfile,
+    }));
 
     return NextResponse.json({
       success: true,
-      filename: result.filename,
-      chunks: result.totalChunks,
-      message: `Successfully processed ${result.totalChunks} chunks from ${file.name}`,
-    });
+      jobId: job.id,
+      id: record.id,
+      filename: file.name,
+      message: `Queued ${file.name} for processing`,
+    }, { status: 202 });
 
   } catch (error) {
     console.error('Upload error:', error);
@@ -52,17 +117,3 @@ export async function POST(request: NextRequest) {
     );
   }
 }
-
-function getFileType(filename: string): 'pdf' | 'markdown' | null {
-  const extension = filename.toLowerCase().split('.').pop();
-  
-  switch (extension) {
-    case 'pdf':
-      return 'pdf';
-    case 'md':
-    case 'markdown':
-      return 'markdown';
-    default:
-      return null;
-  }
-} 
\ No newline at end of file
@@ -8,19 +8,15 @@ import { embedMessage } from '@/utils/embedding';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { FileText, Loader2 } from 'lucide-react';
-
-interface Source {
-  filename: string;
-  chunkIndex: number;
-  score: number;
-  content: string;
-}
+import { formatOcrConfidence, formatPageRange } from '@/lib/utils';
+import { SearchFilters } from '@/lib/search-filters';
+import { SearchFiltersPanel } from '@/components/search-filters';
+import type { ChatMessage } from '@/utils/query-rewriting';
 
 export default function ChatPage() {
   const [input, setInput] = useState('');
-  const [sources, setSources] = useState<Source[]>([]);
-  const [loadingSources, setLoadingSources] = useState(false);
-  const { messages, sendMessage } = useChat();
+  const [filters, setFilters] = useState<SearchFilters>({});
+  const { messages, sendMessage, status } = useChat<ChatMessage>();
   const { user, loading } = useAuth();
   const router = useRouter();
 
@@ -48,6 +44,11 @@ export default function ChatPage() {
     return null;
   }
 
+  // The chat API sends the sources of each answer's context along with it
+  const lastAnswer = messages.findLast(message => message.role === 'assistant');
+  const sources = lastAnswer?.metadata?.sources ?? [];
+  const loadingSources = status === 'submitted';
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!input.trim()) return;
@@ -55,35 +56,11 @@ export default function ChatPage() {
     const currentInput = input;
     setInput('');
 
-    // Fetch sources for the query
-    setLoadingSources(true);
-    try {
-      const sourcesResponse = await fetch('/api/sources', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ query: currentInput }),
-      });
-
-      if (sourcesResponse.ok) {
-        const { sources: fetchedSources } = await sourcesResponse.json();
-        setSources(fetchedSources || []);
-      } else {
-        setSources([]);
-      }
-    } catch (error) {
-      console.error('Error fetching sources:', error);
-      setSources([]);
-    } finally {
-      setLoadingSources(false);
-    }
-
     // Optional: Generate embedding for logging (RAG is now handled in the chat API)
     await embedMessage(currentInput);
     
     // Send the message to the chat (RAG context will be automatically retrieved)
-    sendMessage({ text: currentInput });
+    sendMessage({ text: currentInput }, { body: { filters } });
   };
 
   return (
@@ -118,6 +95,24 @@ export default function ChatPage() {
                         return <div key={`${message.id}-${i}`}>{part.text}</div>;
                     }
                   })}
+                  {message.metadata?.searchQuery && (
+                    <div
+                      className="mt-2 text-xs text-muted-foreground"
+                      title="The question was rewritten with the conversation so far to search the knowledge base"
+                    >
+                      Searched for: {message.metadata.searchQuery}
+                    </div>
+                  )}
+                  {message.metadata?.generatedQueries && (
+                    <details className="mt-2 text-xs text-muted-foreground">
+                      <summary className="cursor-pointer">Also searched with</summary>
+                      <ul className="mt-1 list-disc pl-5">
+                        {message.metadata.generatedQueries.map((generatedQuery, index) => (
+                          <li key={index}>{generatedQuery}</li>
+                        ))}
+                      </ul>
+                    </details>
+                  )}
                 </div>
               ))
             )}
@@ -136,6 +131,9 @@ export default function ChatPage() {
                 Send
               </Button>
             </div>
+            <div className="mt-2">
+              <SearchFiltersPanel filters={filters} onChange={setFilters} label="Only search in" />
+            </div>
           </form>
         </div>
 
@@ -175,10 +173,27 @@ export default function ChatPage() {
                         <FileText className="h-4 w-4 text-blue-600" />
                         <span className="font-medium text-sm truncate">
                           {source.filename}
+                          {source.pageStart && `, ${formatPageRange(source.pageStart, source.pageEnd)}`}
                         </span>
                       </div>
+                      {source.citation && (
+                        <p className="text-xs text-muted-foreground mb-1 truncate">{source.citation}</p>
+                      )}
+                      {source.headingPath && (
+                        <p className="text-xs text-muted-foreground mb-1 truncate" title={source.headingPath}>
+                          {source.headingPath}
+                        </p>
+                      )}
                       <p className="text-xs text-muted-foreground mb-2">
-                        Chunk {source.chunkIndex + 1} • Relevance: {(source.score * 100).toFixed(1)}%
+                        {source.contentType === 'table' ? 'Table' : 'Chunk'} {source.chunkIndex + 1} • Relevance: {((source.rerankScore ?? source.score) * 100).toFixed(1)}%
+                        {source.ocrConfidence !== undefined && (
+                          <span
+                            className="ml-2 px-1.5 py-0.5 rounded bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200"
+                            title="Text recognized from a scanned page; it may contain recognition errors"
+                          >
+                            {formatOcrConfidence(source.ocrConfidence)}
+                          </span>
+                        )}
                       </p>
                       <p className="text-sm text-muted-foreground">
                         {source.content}
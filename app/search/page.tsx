@@ -4,6 +4,11 @@ import { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Search, Loader2 } from 'lucide-react';
+import { formatEmailCitation, formatOcrConfidence, formatPageRange } from '@/lib/utils';
+import { ChunkContentType } from '@/lib/database.types';
+import { SearchFilters } from '@/lib/search-filters';
+import { DEFAULT_RETRIEVAL_SETTINGS, QueryMode, RerankerType } from '@/lib/retrieval-settings';
+import { SearchFiltersPanel } from '@/components/search-filters';
 
 interface SearchResult {
   content: string;
@@ -12,21 +17,60 @@ interface SearchResult {
     chunkIndex: number;
     totalChunks: number;
     chunkId: string;
+    pageStart?: number;
+    pageEnd?: number;
+    headingPath?: string;
+    ocr?: boolean;
+    ocrConfidence?: number;
+    contentType?: ChunkContentType;
+    emailFrom?: string;
+    emailDate?: string;
+    emailSubject?: string;
+    parentDocumentId?: string;
     source: string;
     timestamp: string;
   };
+  // Fused rank score; the vector and keyword scores are set for the searches that found the chunk
   score: number;
+  vectorScore?: number;
+  keywordScore?: number;
+  // Set when a reranker ran; results are then ordered by it
+  rerankScore?: number;
 }
 
 interface SearchResponse {
   query: string;
+  // Paraphrases or hypothetical answer searched besides the query
+  generatedQueries: string[];
   results: SearchResult[];
   totalResults: number;
 }
 
+const RERANKER_OPTIONS: Array<{ value: RerankerType; label: string }> = [
+  { value: 'llm', label: 'Language model' },
+  { value: 'local', label: 'Local model' },
+  { value: 'none', label: 'Off' },
+];
+
+// 0 for no limit
+const MAX_CHUNKS_PER_DOCUMENT_OPTIONS = [0, 1, 2, 3, 5];
+
+const QUERY_MODE_OPTIONS: Array<{ value: QueryMode; label: string }> = [
+  { value: 'single', label: 'Query only' },
+  { value: 'multi-query', label: 'Paraphrases' },
+  { value: 'hyde', label: 'Hypothetical answer' },
+];
+
 export default function SearchPage() {
   const [query, setQuery] = useState('');
+  const [filters, setFilters] = useState<SearchFilters>({});
+  const [keywordWeight, setKeywordWeight] = useState(DEFAULT_RETRIEVAL_SETTINGS.keywordWeight);
+  const [reranker, setReranker] = useState<RerankerType>(DEFAULT_RETRIEVAL_SETTINGS.reranker);
+  const [mmrLambda, setMmrLambda] = useState(DEFAULT_RETRIEVAL_SETTINGS.mmrLambda);
+  const [maxChunksPerDocument, setMaxChunksPerDocument] = useState(DEFAULT_RETRIEVAL_SETTINGS.maxChunksPerDocument);
+  const [queryMode, setQueryMode] = useState<QueryMode>(DEFAULT_RETRIEVAL_SETTINGS.queryMode);
   const [results, setResults] = useState<SearchResult[]>([]);
+  const [generatedQueries, setGeneratedQueries] = useState<string[]>([]);
   const [isSearching, setIsSearching] = useState(false);
   const [hasSearched, setHasSearched] = useState(false);
 
@@ -43,7 +87,16 @@ export default function SearchPage() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ query, maxResults: 10 }),
+        body: JSON.stringify({
+          query,
+          maxResults: 10,
+          filters,
+          keywordWeight,
+          reranker,
+          mmrLambda,
+          maxChunksPerDocument,
+          queryMode,
+        }),
       });
 
       if (!response.ok) {
@@ -52,10 +105,12 @@ export default function SearchPage() {
 
       const data: SearchResponse = await response.json();
       setResults(data.results);
+      setGeneratedQueries(data.generatedQueries ?? []);
       setHasSearched(true);
     } catch (error) {
       console.error('Search error:', error);
       setResults([]);
+      setGeneratedQueries([]);
     } finally {
       setIsSearching(false);
     }
@@ -104,6 +159,87 @@ export default function SearchPage() {
               )}
             </Button>
           </form>
+          <div className="mt-4 space-y-3">
+            <SearchFiltersPanel filters={filters} onChange={setFilters} disabled={isSearching} />
+            <div className="flex flex-wrap items-center gap-4 text-sm">
+              <label
+                className="flex items-center gap-2"
+                title="How much exact keyword matches count against semantic similarity"
+              >
+                Semantic
+                <input
+                  type="range"
+                  min={0}
+                  max={1}
+                  step={0.1}
+                  value={keywordWeight}
+                  onChange={(e) => setKeywordWeight(parseFloat(e.target.value))}
+                  disabled={isSearching}
+                />
+                Keywords
+                <span className="text-muted-foreground">({Math.round(keywordWeight * 100)}%)</span>
+              </label>
+              <label className="flex items-center gap-2">
+                Reranking
+                <select
+                  className="p-1 border border-gray-300 rounded dark:bg-gray-800 dark:border-gray-600"
+                  value={reranker}
+                  onChange={(e) => setReranker(e.target.value as RerankerType)}
+                  disabled={isSearching}
+                >
+                  {RERANKER_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </label>
+              <label
+                className="flex items-center gap-2"
+                title="How much relevance counts against difference from the results above (maximal marginal relevance)"
+              >
+                Diverse
+                <input
+                  type="range"
+                  min={0}
+                  max={1}
+                  step={0.1}
+                  value={mmrLambda}
+                  onChange={(e) => setMmrLambda(parseFloat(e.target.value))}
+                  disabled={isSearching}
+                />
+                Relevant
+                <span className="text-muted-foreground">(λ {mmrLambda.toFixed(1)})</span>
+              </label>
+              <label className="flex items-center gap-2">
+                Per document
+                <select
+                  className="p-1 border border-gray-300 rounded dark:bg-gray-800 dark:border-gray-600"
+                  value={maxChunksPerDocument}
+                  onChange={(e) => setMaxChunksPerDocument(parseInt(e.target.value))}
+                  disabled={isSearching}
+                >
+                  {MAX_CHUNKS_PER_DOCUMENT_OPTIONS.map(option => (
+                    <option key={option} value={option}>{option === 0 ? 'Any' : `At most ${option}`}</option>
+                  ))}
+                </select>
+              </label>
+              <label
+                className="flex items-center gap-2"
+                title="Also search with paraphrases of the query, or with a hypothetical answer to it"
+              >
+                Search with
+                <select
+                  className="p-1 border border-gray-300 rounded dark:bg-gray-800 dark:border-gray-600"
+                  value={queryMode}
+                  onChange={(e) => setQueryMode(e.target.value as QueryMode)}
+                  disabled={isSearching}
+                >
+                  {QUERY_MODE_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+          </div>
         </CardContent>
       </Card>
 
@@ -121,6 +257,18 @@ export default function SearchPage() {
             </CardDescription>
           </CardHeader>
           <CardContent>
+            {generatedQueries.length > 0 && (
+              <details className="mb-4 text-sm">
+                <summary className="cursor-pointer text-muted-foreground">
+                  Also searched with {generatedQueries.length} generated {generatedQueries.length === 1 ? 'query' : 'queries'}
+                </summary>
+                <ul className="mt-2 space-y-1 list-disc pl-5 text-gray-700 dark:text-gray-300">
+                  {generatedQueries.map((generatedQuery, index) => (
+                    <li key={index}>{generatedQuery}</li>
+                  ))}
+                </ul>
+              </details>
+            )}
             {results.length > 0 ? (
               <div className="space-y-4">
                 {results.map((result, index) => (
@@ -132,18 +280,62 @@ export default function SearchPage() {
                       <div className="flex items-center gap-2">
                         <span className="font-medium text-sm">
                           {result.metadata.filename}
+                          {result.metadata.pageStart && `, ${formatPageRange(result.metadata.pageStart, result.metadata.pageEnd)}`}
                         </span>
                         <span className="text-xs text-muted-foreground">
                           Chunk {result.metadata.chunkIndex + 1} of {result.metadata.totalChunks}
                         </span>
+                        {result.metadata.contentType === 'table' && (
+                          <span className="text-xs bg-gray-100 text-gray-800 px-2 py-1 rounded dark:bg-gray-800 dark:text-gray-200">
+                            Table
+                          </span>
+                        )}
+                        {result.metadata.ocr && (
+                          <span
+                            className="text-xs bg-yellow-100 text-yellow-800 px-2 py-1 rounded dark:bg-yellow-900 dark:text-yellow-200"
+                            title="Text recognized from a scanned page; it may contain recognition errors"
+                          >
+                            {formatOcrConfidence(result.metadata.ocrConfidence)}
+                          </span>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-2">
+                        {result.rerankScore !== undefined && (
+                          <span className="text-xs bg-green-100 text-green-800 px-2 py-1 rounded dark:bg-green-900 dark:text-green-200">
+                            Rerank: {result.rerankScore.toFixed(3)}
+                          </span>
+                        )}
+                        <span
+                          className="text-xs bg-blue-100 text-blue-800 px-2 py-1 rounded dark:bg-blue-900 dark:text-blue-200"
+                          title={[
+                            result.vectorScore !== undefined && `Similarity ${result.vectorScore.toFixed(3)}`,
+                            result.keywordScore !== undefined && `Keywords ${result.keywordScore.toFixed(2)}`,
+                          ].filter(Boolean).join(' • ')}
+                        >
+                          Score: {result.score.toFixed(3)}
+                        </span>
                       </div>
-                      <span className="text-xs bg-blue-100 text-blue-800 px-2 py-1 rounded dark:bg-blue-900 dark:text-blue-200">
-                        Score: {result.score.toFixed(3)}
-                      </span>
                     </div>
-                    <p className="text-sm text-gray-700 dark:text-gray-300 mb-2">
-                      {result.content}
-                    </p>
+                    {formatEmailCitation(result.metadata) && (
+                      <p className="text-xs text-muted-foreground mb-1">
+                        {formatEmailCitation(result.metadata)}
+                        {result.metadata.emailSubject && ` • ${result.metadata.emailSubject}`}
+                      </p>
+                    )}
+                    {result.metadata.headingPath && (
+                      <p className="text-xs text-muted-foreground mb-2">
+                        {result.metadata.headingPath}
+                      </p>
+                    )}
+                    {result.metadata.contentType === 'table' ? (
+                      <pre className="text-xs text-gray-700 dark:text-gray-300 mb-2 whitespace-pre-wrap overflow-x-auto">
+                        {result.content}
+                      </pre>
+                    ) : (
+                      <p className="text-sm text-gray-700 dark:text-gray-300 mb-2">
+                        {result.content}
+                      </p>
+                    )}
                     <div className="text-xs text-muted-foreground">
                       Source: {result.metadata.source} • {new Date(result.metadata.timestamp).toLocaleDateString()}
                     </div>
@@ -1,9 +1,12 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Upload, FileText, File, Loader2, CheckCircle, AlertCircle, Database, Link, Globe } from 'lucide-react';
+import { Upload, FileText, File, Loader2, CheckCircle, AlertCircle, Database, Link, Globe, Trash2, RefreshCw, Clock, ChevronLeft, ChevronRight, Copy, Scissors, Eye, AlertTriangle, FolderOpen, Tag } from 'lucide-react';
+import { CrawlOptions, CrawlScope, DEFAULT_CRAWL_OPTIONS, MAX_CRAWL_DEPTH, MAX_CRAWL_PAGES } from '@/lib/crawl-options';
+import { ArchiveFileResult, ChunkingProfile, CrawlPageResult, DocumentRecord, DocumentSortField, IngestionJob, IngestionJobStatus, IngestionStage, RefreshSchedule, UploadPreview } from '@/lib/database.types';
+import { formatOcrConfidence, formatPageRange } from '@/lib/utils';
 
 interface UploadResult {
   filename: string;
@@ -11,41 +14,469 @@ interface UploadResult {
   message: string;
   chunks?: number;
   url?: string;
+  // Identical content was already in the knowledge base, nothing was stored
+  skipped?: boolean;
+  // Background ingestion job, polled until it completes or fails
+  jobId?: string;
+  status?: IngestionJobStatus;
+  stage?: IngestionStage;
+  progress?: number;
+  retries?: number;
+  // Per-page report of a website crawl
+  pages?: CrawlPageResult[];
+  // Per-file report of a zip archive or folder import
+  files?: ArchiveFileResult[];
+  // Per-attachment report of an email
+  attachments?: ArchiveFileResult[];
 }
 
-interface ExistingDocument {
-  id: string;
-  filename: string;
+const STAGE_LABELS: Record<IngestionStage, string> = {
+  queued: 'Queued',
+  extract: 'Extracting text',
+  split: 'Splitting into chunks',
+  embed: 'Embedding',
+  upsert: 'Storing',
+  done: 'Done',
+};
+
+function isJobActive(result: UploadResult): boolean {
+  return result.status === 'queued' || result.status === 'running';
+}
+
+function applyJob(result: UploadResult, job: IngestionJob): UploadResult {
+  return {
+    ...result,
+    status: job.status,
+    stage: job.stage,
+    progress: job.progress,
+    retries: job.retries,
+    success: job.status !== 'failed',
+    skipped: job.result?.skipped,
+    chunks: job.result?.chunks,
+    pages: job.result?.pages,
+    files: job.result?.files,
+    attachments: job.result?.attachments,
+    message: job.status === 'failed'
+      ? job.error ?? 'Processing failed'
+      : job.message ?? STAGE_LABELS[job.stage],
+  };
+}
+
+// Body of /api/upload-url, kept with a preview so the same request is sent on confirm
+interface UrlUploadRequest {
+  url: string;
+  crawl?: Pick<CrawlOptions, 'maxDepth' | 'maxPages' | 'scope'>;
+  refreshSchedule: RefreshSchedule;
+  chunkingProfileId?: string;
+  collection?: string;
+  tags?: string;
+}
+
+// Collection and comma-separated tags as typed; the server normalizes them
+interface UploadLabels {
+  collection: string;
+  tags: string;
+}
+
+// A previewed upload waiting for the user to confirm or cancel it
+interface PendingUpload {
+  key: string;
+  preview: UploadPreview;
+  file?: File;
+  chunkingProfileId?: string;
+  labels?: UploadLabels;
+  urlRequest?: UrlUploadRequest;
+}
+
+function appendLabels(formData: FormData, { collection, tags }: UploadLabels) {
+  if (collection.trim()) {
+    formData.append('collection', collection);
+  }
+  if (tags.trim()) {
+    formData.append('tags', tags);
+  }
+}
+
+function isZipFile(file: File): boolean {
+  return file.name.toLowerCase().endsWith('.zip');
+}
+
+function queuedResult(filename: string, result: { message: string; jobId: string }, url?: string): UploadResult {
+  return {
+    filename,
+    success: true,
+    message: result.message,
+    url,
+    jobId: result.jobId,
+    status: 'queued',
+    stage: 'queued',
+    progress: 0,
+  };
+}
+
+interface CatalogStats {
+  totalDocuments: number;
   totalChunks: number;
-  url?: string;
-  source?: string;
+}
+
+const SORT_OPTIONS: Array<{ value: `${DocumentSortField}:${'asc' | 'desc'}`; label: string }> = [
+  { value: 'created_at:desc', label: 'Newest first' },
+  { value: 'created_at:asc', label: 'Oldest first' },
+  { value: 'filename:asc', label: 'Name (A–Z)' },
+  { value: 'filename:desc', label: 'Name (Z–A)' },
+  { value: 'chunk_count:desc', label: 'Most chunks' },
+  { value: 'byte_size:desc', label: 'Largest' },
+];
+
+const PAGE_SIZE = 20;
+
+const REFRESH_SCHEDULE_OPTIONS: Array<{ value: RefreshSchedule; label: string }> = [
+  { value: 'manual', label: 'Manually' },
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+];
+
+function formatDateTime(value: string | null): string {
+  return value ? new Date(value).toLocaleString() : 'never';
+}
+
+function formatBytes(bytes: number | null): string {
+  if (bytes === null) return '—';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
 }
 
 export default function UploadPage() {
   const [isUploading, setIsUploading] = useState(false);
   const [results, setResults] = useState<UploadResult[]>([]);
   const [dragActive, setDragActive] = useState(false);
-  const [existingDocuments, setExistingDocuments] = useState<ExistingDocument[]>([]);
+  const [existingDocuments, setExistingDocuments] = useState<DocumentRecord[]>([]);
   const [loadingDocuments, setLoadingDocuments] = useState(true);
+  const [documentPage, setDocumentPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [documentSort, setDocumentSort] = useState<string>(SORT_OPTIONS[0].value);
+  const [catalogStats, setCatalogStats] = useState<CatalogStats>({ totalDocuments: 0, totalChunks: 0 });
+  const [expandedDocumentId, setExpandedDocumentId] = useState<string | null>(null);
   const [urlInput, setUrlInput] = useState('');
+  const [crawlEnabled, setCrawlEnabled] = useState(false);
+  const [refreshSchedule, setRefreshSchedule] = useState<RefreshSchedule>('manual');
+  const [crawlOptions, setCrawlOptions] = useState<Pick<CrawlOptions, 'maxDepth' | 'maxPages' | 'scope'>>({
+    maxDepth: DEFAULT_CRAWL_OPTIONS.maxDepth,
+    maxPages: DEFAULT_CRAWL_OPTIONS.maxPages,
+    scope: DEFAULT_CRAWL_OPTIONS.scope,
+  });
+  const [busyDocumentId, setBusyDocumentId] = useState<string | null>(null);
+  const [chunkingProfiles, setChunkingProfiles] = useState<ChunkingProfile[]>([]);
+  // Profile for new uploads; empty means the default profile
+  const [chunkingProfileId, setChunkingProfileId] = useState('');
+  const [uploadLabels, setUploadLabels] = useState<UploadLabels>({ collection: '', tags: '' });
+  // Labels being edited in the expanded document's details
+  const [labelDraft, setLabelDraft] = useState<UploadLabels>({ collection: '', tags: '' });
+  // Profile picked in the expanded document's details for re-chunking
+  const [rechunkProfileId, setRechunkProfileId] = useState('');
+  // Extract and split first, and only embed once the user confirms
+  const [previewEnabled, setPreviewEnabled] = useState(true);
+  const [pendingUploads, setPendingUploads] = useState<PendingUpload[]>([]);
+  const folderInputRef = useRef<HTMLInputElement>(null);
 
-  useEffect(() => {
-    fetchExistingDocuments();
-  }, []);
-
-  const fetchExistingDocuments = async () => {
+  const fetchExistingDocuments = useCallback(async () => {
     try {
       setLoadingDocuments(true);
-      const response = await fetch('/api/documents');
+      const [sort, order] = documentSort.split(':');
+      const params = new URLSearchParams({
+        page: String(documentPage),
+        pageSize: String(PAGE_SIZE),
+        sort,
+        order,
+      });
+      const response = await fetch(`/api/documents?${params}`);
       if (response.ok) {
         const data = await response.json();
         setExistingDocuments(data.documents || []);
+        setTotalPages(data.totalPages || 1);
+        if (data.stats) {
+          setCatalogStats(data.stats);
+        }
       }
     } catch (error) {
       console.error('Error fetching documents:', error);
     } finally {
       setLoadingDocuments(false);
     }
+  }, [documentPage, documentSort]);
+
+  useEffect(() => {
+    fetchExistingDocuments();
+  }, [fetchExistingDocuments]);
+
+  // Not part of React's input props; lets the picker select a whole folder
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
+
+  useEffect(() => {
+    fetch('/api/chunking-profiles')
+      .then(response => (response.ok ? response.json() : { profiles: [] }))
+      .then(data => setChunkingProfiles(data.profiles || []))
+      .catch(error => console.error('Error fetching chunking profiles:', error));
+  }, []);
+
+  const profileName = (id: string | null) =>
+    chunkingProfiles.find(profile => profile.id === id)?.name ?? 'Default settings';
+
+  const toggleDetails = (doc: DocumentRecord) => {
+    setExpandedDocumentId(expandedDocumentId === doc.id ? null : doc.id);
+    setRechunkProfileId(doc.chunking_profile_id ?? '');
+    setLabelDraft({ collection: doc.collection ?? '', tags: doc.tags.join(', ') });
+  };
+
+  // Poll running ingestion jobs and refresh the document list when one finishes
+  const activeJobIds = results.filter(isJobActive).map(result => result.jobId).join(',');
+
+  useEffect(() => {
+    if (!activeJobIds) return;
+
+    const timer = setInterval(async () => {
+      const jobs = await Promise.all(
+        activeJobIds.split(',').map(async (jobId) => {
+          try {
+            const response = await fetch(`/api/jobs/${jobId}`);
+            return response.ok ? ((await response.json()).job as IngestionJob) : null;
+          } catch (error) {
+            console.error('Error polling job:', error);
+            return null;
+          }
+        })
+      );
+
+      setResults(prev => prev.map(result => {
+        const job = jobs.find(candidate => candidate?.id === result.jobId);
+        return job ? applyJob(result, job) : result;
+      }));
+
+      if (jobs.some(job => job && job.status !== 'queued' && job.status !== 'running')) {
+        fetchExistingDocuments();
+      }
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [activeJobIds, fetchExistingDocuments]);
+
+  const handleDelete = async (doc: DocumentRecord) => {
+    if (!window.confirm(`Remove "${doc.filename}" and all of its chunks from the knowledge base?`)) return;
+
+    setBusyDocumentId(doc.id);
+
+    try {
+      const response = await fetch(`/api/documents/${encodeURIComponent(doc.id)}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        throw new Error(`Delete failed: ${response.statusText}`);
+      }
+
+      fetchExistingDocuments();
+    } catch (error) {
+      const newResult: UploadResult = {
+        filename: doc.filename,
+        success: false,
+        message: error instanceof Error ? error.message : 'Delete failed',
+      };
+      setResults(prev => [newResult, ...prev]);
+    } finally {
+      setBusyDocumentId(null);
+    }
+  };
+
+  const updateDocument = (document: DocumentRecord) => {
+    setExistingDocuments(prev => prev.map(doc => (doc.id === document.id ? document : doc)));
+  };
+
+  const handleLabelsSave = async (doc: DocumentRecord) => {
+    setBusyDocumentId(doc.id);
+
+    try {
+      const response = await fetch(`/api/documents/${encodeURIComponent(doc.id)}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ collection: labelDraft.collection, tags: labelDraft.tags }),
+      });
+
+      if (!response.ok) {
+        const { error } = await response.json().catch(() => ({}));
+        throw new Error(error ?? `Updating the labels failed: ${response.statusText}`);
+      }
+
+      const { document } = await response.json();
+      updateDocument(document);
+      setLabelDraft({ collection: document.collection ?? '', tags: document.tags.join(', ') });
+    } catch (error) {
+      const newResult: UploadResult = {
+        filename: doc.filename,
+        success: false,
+        message: error instanceof Error ? error.message : 'Updating the labels failed',
+      };
+      setResults(prev => [newResult, ...prev]);
+    } finally {
+      setBusyDocumentId(null);
+    }
+  };
+
+  const handleScheduleChange = async (doc: DocumentRecord, refreshSchedule: RefreshSchedule) => {
+    setBusyDocumentId(doc.id);
+
+    try {
+      const response = await fetch(`/api/documents/${encodeURIComponent(doc.id)}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ refreshSchedule }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Updating the schedule failed: ${response.statusText}`);
+      }
+
+      updateDocument((await response.json()).document);
+    } catch (error) {
+      const newResult: UploadResult = {
+        filename: doc.filename,
+        success: false,
+        message: error instanceof Error ? error.message : 'Updating the schedule failed',
+      };
+      setResults(prev => [newResult, ...prev]);
+    } finally {
+      setBusyDocumentId(null);
+    }
+  };
+
+  const handleRefresh = async (doc: DocumentRecord) => {
+    setBusyDocumentId(doc.id);
+
+    try {
+      const response = await fetch(`/api/documents/${encodeURIComponent(doc.id)}/refresh`, {
+        method: 'POST',
+      });
+
+      if (!response.ok) {
+        throw new Error(`Refresh failed: ${response.statusText}`);
+      }
+
+      const { result, document } = await response.json();
+      if (document) {
+        updateDocument(document);
+      }
+
+      const newResult: UploadResult = {
+        filename: doc.filename,
+        success: result.outcome !== 'failed',
+        url: doc.url ?? undefined,
+        chunks: result.chunks,
+        message: result.outcome === 'updated'
+          ? `Page changed, re-embedded ${result.chunks} chunks`
+          : result.outcome === 'unchanged'
+          ? 'Page is unchanged'
+          : `Refresh failed: ${result.error}`,
+      };
+      setResults(prev => [newResult, ...prev]);
+    } catch (error) {
+      const newResult: UploadResult = {
+        filename: doc.filename,
+        success: false,
+        message: error instanceof Error ? error.message : 'Refresh failed',
+      };
+      setResults(prev => [newResult, ...prev]);
+    } finally {
+      setBusyDocumentId(null);
+    }
+  };
+
+  const handleRechunk = async (doc: DocumentRecord) => {
+    setBusyDocumentId(doc.id);
+
+    try {
+      const response = await fetch(`/api/documents/${encodeURIComponent(doc.id)}/rechunk`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ chunkingProfileId: rechunkProfileId || undefined }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Re-chunking failed: ${response.statusText}`);
+      }
+
+      const result = await response.json();
+      const newResult: UploadResult = {
+        filename: doc.filename,
+        success: true,
+        message: result.message,
+        url: doc.url ?? undefined,
+        jobId: result.jobId,
+        status: 'queued',
+        stage: 'queued',
+        progress: 0,
+      };
+      setResults(prev => [newResult, ...prev]);
+    } catch (error) {
+      const newResult: UploadResult = {
+        filename: doc.filename,
+        success: false,
+        message: error instanceof Error ? error.message : 'Re-chunking failed',
+      };
+      setResults(prev => [newResult, ...prev]);
+    } finally {
+      setBusyDocumentId(null);
+    }
+  };
+
+  const handleReplace = async (doc: DocumentRecord, e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setBusyDocumentId(doc.id);
+
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+
+      const response = await fetch(`/api/documents/${encodeURIComponent(doc.id)}`, {
+        method: 'PUT',
+        body: formData,
+      });
+
+      if (!response.ok) {
+        throw new Error(`Replace failed: ${response.statusText}`);
+      }
+
+      const result = await response.json();
+      const newResult: UploadResult = {
+        filename: file.name,
+        success: true,
+        message: result.message,
+        jobId: result.jobId,
+        status: 'queued',
+        stage: 'queued',
+        progress: 0,
+      };
+      setResults(prev => [newResult, ...prev]);
+    } catch (error) {
+      const newResult: UploadResult = {
+        filename: file.name,
+        success: false,
+        message: error instanceof Error ? error.message : 'Replace failed',
+      };
+      setResults(prev => [newResult, ...prev]);
+    } finally {
+      setBusyDocumentId(null);
+    }
   };
 
   const handleDrag = (e: React.DragEvent) => {
@@ -72,33 +503,101 @@ export default function UploadPage() {
     handleFiles(files);
   };
 
+  // Sends a file to /api/upload; with `preview` it is only extracted and split
+  const postFile = async (file: File, profileId: string, labels: UploadLabels, preview: boolean) => {
+    const formData = new FormData();
+    formData.append('file', file);
+    if (profileId) {
+      formData.append('chunkingProfileId', profileId);
+    }
+    appendLabels(formData, labels);
+    if (preview) {
+      formData.append('preview', 'true');
+    }
+
+    const response = await fetch('/api/upload', {
+      method: 'POST',
+      body: formData,
+    });
+
+    if (!response.ok) {
+      const { error } = await response.json().catch(() => ({}));
+      throw new Error(error ?? `Upload failed: ${response.statusText}`);
+    }
+
+    return response.json();
+  };
+
+  // Sends a zip archive, or the files of a folder with their relative paths, to /api/upload-archive
+  const postArchive = async (files: File[]) => {
+    const formData = new FormData();
+    if (files.length === 1 && isZipFile(files[0])) {
+      formData.append('file', files[0]);
+    } else {
+      for (const file of files) {
+        formData.append('files', file);
+        formData.append('paths', file.webkitRelativePath || file.name);
+      }
+    }
+    if (chunkingProfileId) {
+      formData.append('chunkingProfileId', chunkingProfileId);
+    }
+    appendLabels(formData, uploadLabels);
+
+    const response = await fetch('/api/upload-archive', {
+      method: 'POST',
+      body: formData,
+    });
+
+    if (!response.ok) {
+      const { error } = await response.json().catch(() => ({}));
+      throw new Error(error ?? `Import failed: ${response.statusText}`);
+    }
+
+    return response.json();
+  };
+
+  const postUrl = async (request: UrlUploadRequest, preview: boolean) => {
+    const response = await fetch('/api/upload-url', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ ...request, preview }),
+    });
+
+    if (!response.ok) {
+      const { error } = await response.json().catch(() => ({}));
+      throw new Error(error ?? `Upload failed: ${response.statusText}`);
+    }
+
+    return response.json();
+  };
+
   const handleFiles = async (files: File[]) => {
     if (files.length === 0) return;
 
     setIsUploading(true);
     const newResults: UploadResult[] = [];
+    const newPending: PendingUpload[] = [];
 
     for (const file of files) {
       try {
-        const formData = new FormData();
-        formData.append('file', file);
-
-        const response = await fetch('/api/upload', {
-          method: 'POST',
-          body: formData,
-        });
+        // Archives are imported file by file on the server; there is nothing to preview
+        if (isZipFile(file)) {
+          const result = await postArchive([file]);
+          newResults.push(queuedResult(result.filename, result));
+          continue;
+        }
 
-        if (!response.ok) {
-          throw new Error(`Upload failed: ${response.statusText}`);
+        if (previewEnabled) {
+          const { preview } = await postFile(file, chunkingProfileId, uploadLabels, true);
+          newPending.push({ key: `${file.name}-${Date.now()}`, preview, file, chunkingProfileId, labels: uploadLabels });
+          continue;
         }
 
-        const result = await response.json();
-        newResults.push({
-          filename: file.name,
-          success: true,
-          message: `Successfully processed ${result.chunks} chunks`,
-          chunks: result.chunks,
-        });
+        const result = await postFile(file, chunkingProfileId, uploadLabels, false);
+        newResults.push(queuedResult(file.name, result));
       } catch (error) {
         newResults.push({
           filename: file.name,
@@ -109,67 +608,133 @@ export default function UploadPage() {
     }
 
     setResults(prev => [...prev, ...newResults]);
+    setPendingUploads(prev => [...prev, ...newPending]);
     setIsUploading(false);
     
-    // Refresh existing documents if any uploads were successful
+    // Show the queued documents; they are refreshed again as their jobs finish
     if (newResults.some(result => result.success)) {
       fetchExistingDocuments();
     }
   };
 
+  const handleFolderSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setIsUploading(true);
+    const folder = files[0].webkitRelativePath.split('/')[0] || 'folder';
+
+    try {
+      const result = await postArchive(files);
+      setResults(prev => [queuedResult(result.filename, result), ...prev]);
+      fetchExistingDocuments();
+    } catch (error) {
+      setResults(prev => [{
+        filename: folder,
+        success: false,
+        message: error instanceof Error ? error.message : 'Import failed',
+      }, ...prev]);
+    }
+
+    setIsUploading(false);
+  };
+
   const handleUrlSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!urlInput.trim()) return;
 
     setIsUploading(true);
 
+    const request: UrlUploadRequest = {
+      url: urlInput.trim(),
+      crawl: crawlEnabled ? crawlOptions : undefined,
+      refreshSchedule,
+      chunkingProfileId: chunkingProfileId || undefined,
+      collection: uploadLabels.collection || undefined,
+      tags: uploadLabels.tags || undefined,
+    };
+
     try {
-      const response = await fetch('/api/upload-url', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ url: urlInput.trim() }),
-      });
+      if (previewEnabled) {
+        const { preview } = await postUrl(request, true);
+        setPendingUploads(prev => [...prev, { key: `${request.url}-${Date.now()}`, preview, urlRequest: request }]);
+      } else {
+        const result = await postUrl(request, false);
+        setResults(prev => [queuedResult(result.filename, result, request.url), ...prev]);
 
-      if (!response.ok) {
-        throw new Error(`Upload failed: ${response.statusText}`);
+        // Refresh existing documents
+        fetchExistingDocuments();
       }
 
-      const result = await response.json();
+      setUrlInput('');
+    } catch (error) {
       const newResult: UploadResult = {
-        filename: result.filename,
-        success: true,
-        message: `Successfully processed ${result.chunks} chunks`,
-        chunks: result.chunks,
-        url: urlInput.trim(),
+        filename: request.url,
+        success: false,
+        message: error instanceof Error ? error.message : 'Upload failed',
+        url: request.url,
       };
-
       setResults(prev => [newResult, ...prev]);
-      setUrlInput('');
-      
-      // Refresh existing documents
+    }
+
+    setIsUploading(false);
+  };
+
+  // Uploads a previewed file or website for real, with the settings it was previewed with
+  const confirmPending = async (pending: PendingUpload) => {
+    setIsUploading(true);
+
+    try {
+      const result = pending.file
+        ? await postFile(pending.file, pending.chunkingProfileId ?? '', pending.labels ?? { collection: '', tags: '' }, false)
+        : await postUrl(pending.urlRequest!, false);
+      setResults(prev => [queuedResult(result.filename, result, pending.urlRequest?.url), ...prev]);
       fetchExistingDocuments();
-      
     } catch (error) {
       const newResult: UploadResult = {
-        filename: urlInput.trim(),
+        filename: pending.preview.filename,
         success: false,
         message: error instanceof Error ? error.message : 'Upload failed',
-        url: urlInput.trim(),
+        url: pending.urlRequest?.url,
       };
       setResults(prev => [newResult, ...prev]);
     }
 
+    setPendingUploads(prev => prev.filter(candidate => candidate.key !== pending.key));
     setIsUploading(false);
   };
 
+  const cancelPending = (pending: PendingUpload) => {
+    setPendingUploads(prev => prev.filter(candidate => candidate.key !== pending.key));
+  };
+
+  // Collection and tags for new uploads, shown with the website and the file upload settings
+  const labelInputs = (
+    <>
+      <input
+        className="w-32 p-1 border border-gray-300 rounded dark:bg-gray-800 dark:border-gray-600"
+        placeholder="Collection"
+        value={uploadLabels.collection}
+        onChange={(e) => setUploadLabels(labels => ({ ...labels, collection: e.target.value }))}
+        disabled={isUploading}
+      />
+      <input
+        className="w-48 p-1 border border-gray-300 rounded dark:bg-gray-800 dark:border-gray-600"
+        placeholder="Tags, comma-separated"
+        value={uploadLabels.tags}
+        onChange={(e) => setUploadLabels(labels => ({ ...labels, tags: e.target.value }))}
+        disabled={isUploading}
+      />
+    </>
+  );
+
   return (
     <div className="container mx-auto px-4 py-8 max-w-4xl">
       <div className="mb-8">
         <h1 className="text-3xl font-bold mb-2">Upload Documents</h1>
         <p className="text-muted-foreground">
-          Upload PDF and Markdown files or add websites to your knowledge base.
+          Upload PDF, Word, Markdown, HTML, text and CSV files or add websites to your knowledge base.
         </p>
       </div>
 
@@ -183,11 +748,25 @@ export default function UploadPage() {
           <CardDescription>
             {loadingDocuments 
               ? 'Loading existing documents...' 
-              : `${existingDocuments.length} document${existingDocuments.length !== 1 ? 's' : ''} currently in your knowledge base`
+              : `${catalogStats.totalDocuments} document${catalogStats.totalDocuments !== 1 ? 's' : ''} with ${catalogStats.totalChunks} chunks currently in your knowledge base`
             }
           </CardDescription>
         </CardHeader>
         <CardContent>
+          <div className="flex justify-end mb-4">
+            <select
+              className="p-2 text-sm border border-gray-300 rounded-lg dark:bg-gray-800 dark:border-gray-600"
+              value={documentSort}
+              onChange={(e) => {
+                setDocumentSort(e.target.value);
+                setDocumentPage(1);
+              }}
+            >
+              {SORT_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
           {loadingDocuments ? (
             <div className="flex items-center justify-center py-8">
               <Loader2 className="h-6 w-6 animate-spin mr-2" />
@@ -204,30 +783,226 @@ export default function UploadPage() {
               {existingDocuments.map((doc) => (
                 <div
                   key={doc.id}
-                  className="flex items-center gap-3 p-3 rounded-lg border border-border bg-card"
+                  className="p-3 rounded-lg border border-border bg-card"
                 >
-                  {doc.source === 'website' ? (
-                    <Globe className="h-5 w-5 text-green-600" />
-                  ) : (
-                    <FileText className="h-5 w-5 text-blue-600" />
-                  )}
-                  <div className="flex-1">
-                    <p className="font-medium">{doc.filename}</p>
-                    {doc.url && (
-                      <p className="text-xs text-green-600 truncate">{doc.url}</p>
+                  <div className="flex items-center gap-3">
+                    {doc.source_type === 'website' ? (
+                      <Globe className="h-5 w-5 text-green-600" />
+                    ) : (
+                      <FileText className="h-5 w-5 text-blue-600" />
                     )}
-                    <p className="text-sm text-muted-foreground">
-                      {doc.totalChunks} chunk{doc.totalChunks !== 1 ? 's' : ''}
-                    </p>
-                  </div>
-                  <div className="flex items-center gap-1">
-                    <CheckCircle className="h-4 w-4 text-green-600" />
-                    <span className="text-sm text-muted-foreground">Active</span>
+                    <button
+                      type="button"
+                      className="flex-1 text-left"
+                      onClick={() => toggleDetails(doc)}
+                    >
+                      <p className="font-medium">{doc.filename}</p>
+                      {doc.url && (
+                        <p className="text-xs text-green-600 truncate">{doc.url}</p>
+                      )}
+                      {doc.collection && (
+                        <p className="text-xs text-muted-foreground truncate">
+                          {[doc.collection, doc.path].filter(Boolean).join(' / ')}
+                        </p>
+                      )}
+                      {doc.parent_id && (
+                        <p className="text-xs text-muted-foreground">Email attachment</p>
+                      )}
+                      {doc.tags.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          {doc.tags.map(tag => (
+                            <span key={tag} className="text-xs px-1.5 py-0.5 rounded bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200">
+                              {tag}
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                      <p className="text-sm text-muted-foreground">
+                        {doc.chunk_count} chunk{doc.chunk_count !== 1 ? 's' : ''} • {new Date(doc.created_at).toLocaleDateString()}
+                      </p>
+                      {doc.source_type === 'website' && (
+                        <p className="text-xs text-muted-foreground">
+                          Last checked {formatDateTime(doc.last_checked_at)} • Last changed {formatDateTime(doc.last_changed_at)}
+                        </p>
+                      )}
+                    </button>
+                    <div className="flex items-center gap-1">
+                      {doc.status === 'ready' ? (
+                        <CheckCircle className="h-4 w-4 text-green-600" />
+                      ) : doc.status === 'processing' ? (
+                        <Clock className="h-4 w-4 text-yellow-600" />
+                      ) : (
+                        <AlertCircle className="h-4 w-4 text-red-600" />
+                      )}
+                      <span className="text-sm text-muted-foreground">
+                        {doc.status === 'ready' ? 'Active' : doc.status === 'processing' ? 'Processing' : 'Failed'}
+                      </span>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      {doc.source_type === 'website' && (
+                        <>
+                          <select
+                            className="p-1 text-xs border border-gray-300 rounded dark:bg-gray-800 dark:border-gray-600"
+                            title="Refresh schedule"
+                            value={doc.refresh_schedule}
+                            onChange={(e) => handleScheduleChange(doc, e.target.value as RefreshSchedule)}
+                            disabled={busyDocumentId !== null}
+                          >
+                            {REFRESH_SCHEDULE_OPTIONS.map(option => (
+                              <option key={option.value} value={option.value}>{option.label}</option>
+                            ))}
+                          </select>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Check for changes now"
+                            onClick={() => handleRefresh(doc)}
+                            disabled={busyDocumentId !== null || doc.status !== 'ready'}
+                          >
+                            {busyDocumentId === doc.id ? (
+                              <Loader2 className="h-4 w-4 animate-spin" />
+                            ) : (
+                              <RefreshCw className="h-4 w-4" />
+                            )}
+                          </Button>
+                        </>
+                      )}
+                      {doc.source_type !== 'website' && (
+                        <>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Replace with new version"
+                            onClick={() => document.getElementById(`replace-input-${doc.id}`)?.click()}
+                            disabled={busyDocumentId !== null}
+                          >
+                            {busyDocumentId === doc.id ? (
+                              <Loader2 className="h-4 w-4 animate-spin" />
+                            ) : (
+                              <RefreshCw className="h-4 w-4" />
+                            )}
+                          </Button>
+                          <input
+                            id={`replace-input-${doc.id}`}
+                            type="file"
+                            accept=".pdf,.docx,.md,.markdown,.html,.htm,.txt,.csv,.eml,.msg"
+                            onChange={(e) => handleReplace(doc, e)}
+                            className="hidden"
+                          />
+                        </>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Delete document"
+                        onClick={() => handleDelete(doc)}
+                        disabled={busyDocumentId !== null}
+                      >
+                        <Trash2 className="h-4 w-4 text-red-600" />
+                      </Button>
+                    </div>
                   </div>
+                  {expandedDocumentId === doc.id && (
+                    <dl className="grid grid-cols-2 gap-x-4 gap-y-1 mt-3 pl-8 text-xs text-muted-foreground">
+                      <dt>Type</dt>
+                      <dd>{doc.source_type}{doc.mime_type && ` (${doc.mime_type})`}</dd>
+                      <dt>Size</dt>
+                      <dd>{formatBytes(doc.byte_size)}</dd>
+                      <dt>Uploaded</dt>
+                      <dd>{new Date(doc.created_at).toLocaleString()}</dd>
+                      <dt>Last updated</dt>
+                      <dd>{new Date(doc.updated_at).toLocaleString()}</dd>
+                      <dt>Content hash</dt>
+                      <dd className="font-mono truncate">{doc.content_hash ?? '—'}</dd>
+                      <dt>Chunking profile</dt>
+                      <dd className="flex items-center gap-2">
+                        <select
+                          className="p-1 text-xs border border-gray-300 rounded dark:bg-gray-800 dark:border-gray-600"
+                          title={`Chunked with ${profileName(doc.chunking_profile_id)}`}
+                          value={rechunkProfileId}
+                          onChange={(e) => setRechunkProfileId(e.target.value)}
+                          disabled={busyDocumentId !== null}
+                        >
+                          {!doc.chunking_profile_id && <option value="">Default settings</option>}
+                          {chunkingProfiles.map(profile => (
+                            <option key={profile.id} value={profile.id}>{profile.name}</option>
+                          ))}
+                        </select>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="h-6 text-xs"
+                          onClick={() => handleRechunk(doc)}
+                          disabled={busyDocumentId !== null || doc.status !== 'ready' || rechunkProfileId === (doc.chunking_profile_id ?? '')}
+                        >
+                          <Scissors className="h-3 w-3 mr-1" />
+                          Re-chunk
+                        </Button>
+                      </dd>
+                      <dt>Collection and tags</dt>
+                      <dd className="flex items-center gap-2">
+                        <input
+                          className="w-28 p-1 text-xs border border-gray-300 rounded dark:bg-gray-800 dark:border-gray-600"
+                          placeholder="Collection"
+                          value={labelDraft.collection}
+                          onChange={(e) => setLabelDraft(draft => ({ ...draft, collection: e.target.value }))}
+                          disabled={busyDocumentId !== null}
+                        />
+                        <input
+                          className="flex-1 min-w-0 p-1 text-xs border border-gray-300 rounded dark:bg-gray-800 dark:border-gray-600"
+                          placeholder="Tags, comma-separated"
+                          value={labelDraft.tags}
+                          onChange={(e) => setLabelDraft(draft => ({ ...draft, tags: e.target.value }))}
+                          disabled={busyDocumentId !== null}
+                        />
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="h-6 text-xs"
+                          onClick={() => handleLabelsSave(doc)}
+                          disabled={busyDocumentId !== null || doc.status === 'processing'}
+                        >
+                          <Tag className="h-3 w-3 mr-1" />
+                          Save
+                        </Button>
+                      </dd>
+                      {doc.error && (
+                        <>
+                          <dt>Error</dt>
+                          <dd className="text-red-600">{doc.error}</dd>
+                        </>
+                      )}
+                    </dl>
+                  )}
                 </div>
               ))}
             </div>
           )}
+          {totalPages > 1 && (
+            <div className="flex items-center justify-between mt-4">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setDocumentPage(page => page - 1)}
+                disabled={documentPage <= 1 || loadingDocuments}
+              >
+                <ChevronLeft className="h-4 w-4 mr-1" />
+                Previous
+              </Button>
+              <span className="text-sm text-muted-foreground">
+                Page {documentPage} of {totalPages}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setDocumentPage(page => page + 1)}
+                disabled={documentPage >= totalPages || loadingDocuments}
+              >
+                Next
+                <ChevronRight className="h-4 w-4 ml-1" />
+              </Button>
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -239,7 +1014,7 @@ export default function UploadPage() {
             Add Website
           </CardTitle>
           <CardDescription>
-            Enter a URL to scrape and add the website content to your knowledge base
+            Enter a URL to scrape and add the website content to your knowledge base, or crawl the pages it links to
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -267,6 +1042,96 @@ export default function UploadPage() {
                 )}
               </Button>
             </div>
+            <div className="mt-3 flex flex-wrap items-center gap-4 text-sm">
+              <label className="flex items-center gap-2">
+                Refresh
+                <select
+                  className="p-1 border border-gray-300 rounded dark:bg-gray-800 dark:border-gray-600"
+                  value={refreshSchedule}
+                  onChange={(e) => setRefreshSchedule(e.target.value as RefreshSchedule)}
+                  disabled={isUploading}
+                >
+                  {REFRESH_SCHEDULE_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center gap-2">
+                Chunking
+                <select
+                  className="p-1 border border-gray-300 rounded dark:bg-gray-800 dark:border-gray-600"
+                  value={chunkingProfileId}
+                  onChange={(e) => setChunkingProfileId(e.target.value)}
+                  disabled={isUploading}
+                >
+                  {chunkingProfiles.length === 0 && <option value="">Default settings</option>}
+                  {chunkingProfiles.map(profile => (
+                    <option key={profile.id} value={profile.is_default ? '' : profile.id}>{profile.name}</option>
+                  ))}
+                </select>
+              </label>
+              {labelInputs}
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={previewEnabled}
+                  onChange={(e) => setPreviewEnabled(e.target.checked)}
+                  disabled={isUploading}
+                />
+                Preview first
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={crawlEnabled}
+                  onChange={(e) => setCrawlEnabled(e.target.checked)}
+                  disabled={isUploading}
+                />
+                Crawl linked pages
+              </label>
+              {crawlEnabled && (
+                <>
+                  <label className="flex items-center gap-2">
+                    Depth
+                    <input
+                      type="number"
+                      min={0}
+                      max={MAX_CRAWL_DEPTH}
+                      className="w-16 p-1 border border-gray-300 rounded dark:bg-gray-800 dark:border-gray-600"
+                      value={crawlOptions.maxDepth}
+                      onChange={(e) => setCrawlOptions(prev => ({ ...prev, maxDepth: Number(e.target.value) }))}
+                      disabled={isUploading}
+                    />
+                  </label>
+                  <label className="flex items-center gap-2">
+                    Max pages
+                    <input
+                      type="number"
+                      min={1}
+                      max={MAX_CRAWL_PAGES}
+                      className="w-20 p-1 border border-gray-300 rounded dark:bg-gray-800 dark:border-gray-600"
+                      value={crawlOptions.maxPages}
+                      onChange={(e) => setCrawlOptions(prev => ({ ...prev, maxPages: Number(e.target.value) }))}
+                      disabled={isUploading}
+                    />
+                  </label>
+                  <select
+                    className="p-1 border border-gray-300 rounded dark:bg-gray-800 dark:border-gray-600"
+                    value={crawlOptions.scope}
+                    onChange={(e) => setCrawlOptions(prev => ({ ...prev, scope: e.target.value as CrawlScope }))}
+                    disabled={isUploading}
+                  >
+                    <option value="path">Below this path</option>
+                    <option value="domain">Whole domain</option>
+                  </select>
+                </>
+              )}
+            </div>
+            {crawlEnabled && (
+              <p className="mt-2 text-xs text-muted-foreground">
+                Each page becomes its own document. Pages listed in sitemap.xml are included and robots.txt is respected.
+              </p>
+            )}
           </form>
         </CardContent>
       </Card>
@@ -278,7 +1143,8 @@ export default function UploadPage() {
             Upload Files
           </CardTitle>
           <CardDescription>
-            Drag and drop files here or click to select. Supported formats: PDF, Markdown
+            Drag and drop files here or click to select. Supported formats: PDF, DOCX, Markdown, HTML, TXT, CSV, emails (EML, MSG),
+            and ZIP archives or whole folders of these
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -303,7 +1169,7 @@ export default function UploadPage() {
                   {dragActive ? 'Drop files here' : 'Drag files here or click to select'}
                 </p>
                 <p className="text-sm text-muted-foreground">
-                  Supports PDF and Markdown files
+                  Supports PDF, DOCX, Markdown, HTML, TXT, CSV, EML and MSG files, and ZIP archives of them
                 </p>
               </div>
               <Button
@@ -320,19 +1186,159 @@ export default function UploadPage() {
                   'Select Files'
                 )}
               </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => folderInputRef.current?.click()}
+                disabled={isUploading}
+              >
+                <FolderOpen className="h-4 w-4 mr-2" />
+                Import Folder
+              </Button>
               <input
                 id="file-input"
                 type="file"
                 multiple
-                accept=".pdf,.md,.markdown"
+                accept=".pdf,.docx,.md,.markdown,.html,.htm,.txt,.csv,.eml,.msg,.zip"
                 onChange={handleFileSelect}
                 className="hidden"
               />
+              <input
+                ref={folderInputRef}
+                type="file"
+                multiple
+                onChange={handleFolderSelect}
+                className="hidden"
+              />
             </div>
           </div>
+          <div className="mt-3 flex flex-wrap items-center gap-4 text-sm">
+            <label className="flex items-center gap-2">
+              Chunking
+              <select
+                className="p-1 border border-gray-300 rounded dark:bg-gray-800 dark:border-gray-600"
+                value={chunkingProfileId}
+                onChange={(e) => setChunkingProfileId(e.target.value)}
+                disabled={isUploading}
+              >
+                {chunkingProfiles.length === 0 && <option value="">Default settings</option>}
+                {chunkingProfiles.map(profile => (
+                  <option key={profile.id} value={profile.is_default ? '' : profile.id}>{profile.name}</option>
+                ))}
+              </select>
+            </label>
+            {labelInputs}
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={previewEnabled}
+                onChange={(e) => setPreviewEnabled(e.target.checked)}
+                disabled={isUploading}
+              />
+              Preview first
+            </label>
+          </div>
         </CardContent>
       </Card>
 
+      {pendingUploads.length > 0 && (
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Eye className="h-5 w-5" />
+              Preview
+            </CardTitle>
+            <CardDescription>
+              Check the extracted text and chunks before anything is embedded
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-4">
+              {pendingUploads.map(pending => (
+                <div key={pending.key} className="p-4 rounded-lg border border-border">
+                  <div className="flex items-start gap-3">
+                    {pending.urlRequest ? (
+                      <Globe className="h-5 w-5 text-green-600" />
+                    ) : (
+                      <FileText className="h-5 w-5 text-blue-600" />
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium">{pending.preview.filename}</p>
+                      {pending.urlRequest && (
+                        <p className="text-xs text-blue-600 truncate">{pending.urlRequest.url}</p>
+                      )}
+                      <p className="text-sm text-muted-foreground">
+                        {pending.preview.characters.toLocaleString()} characters
+                        {pending.preview.pageCount !== null && ` • ${pending.preview.pageCount} page${pending.preview.pageCount !== 1 ? 's' : ''}`}
+                        {` • ${pending.preview.language ? pending.preview.language.toUpperCase() : 'language unknown'}`}
+                        {` • ${pending.preview.totalChunks} chunks of about ${pending.preview.averageChunkLength} characters`}
+                        {pending.preview.chunkingProfile && ` (${pending.preview.chunkingProfile})`}
+                      </p>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        onClick={() => confirmPending(pending)}
+                        disabled={isUploading}
+                      >
+                        Confirm
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => cancelPending(pending)}
+                        disabled={isUploading}
+                      >
+                        Cancel
+                      </Button>
+                    </div>
+                  </div>
+                  {pending.urlRequest?.crawl && (
+                    <p className="mt-2 text-xs text-muted-foreground">
+                      Preview of the start page only; the crawl ingests up to {pending.urlRequest.crawl.maxPages} pages.
+                    </p>
+                  )}
+                  {!!pending.preview.attachments?.length && (
+                    <p className="mt-2 text-xs text-muted-foreground">
+                      Attachments ingested as linked documents: {pending.preview.attachments.join(', ')}
+                    </p>
+                  )}
+                  {pending.preview.duplicateOf && (
+                    <p className="mt-2 text-sm text-yellow-600">
+                      Identical content is already in the knowledge base as {pending.preview.duplicateOf.filename}; it would be skipped.
+                    </p>
+                  )}
+                  {pending.preview.warnings.map(warning => (
+                    <p key={warning} className="mt-2 flex items-center gap-2 text-sm text-red-600">
+                      <AlertTriangle className="h-4 w-4 shrink-0" />
+                      {warning}
+                    </p>
+                  ))}
+                  <div className="mt-3 space-y-2">
+                    {pending.preview.chunks.map(chunk => (
+                      <div key={chunk.index} className="p-2 rounded bg-muted text-xs">
+                        <p className="text-muted-foreground mb-1">
+                          {chunk.contentType === 'table' ? 'Table' : 'Chunk'} {chunk.index + 1}
+                          {chunk.headingPath && ` • ${chunk.headingPath}`}
+                          {chunk.pageStart && ` • ${formatPageRange(chunk.pageStart, chunk.pageEnd)}`}
+                          {chunk.ocrConfidence !== undefined && ` • ${formatOcrConfidence(chunk.ocrConfidence)}`}
+                        </p>
+                        <p className="whitespace-pre-wrap line-clamp-6">{chunk.content}</p>
+                      </div>
+                    ))}
+                    {pending.preview.totalChunks > pending.preview.chunks.length && (
+                      <p className="text-xs text-muted-foreground">
+                        … and {pending.preview.totalChunks - pending.preview.chunks.length} more chunks
+                      </p>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {results.length > 0 && (
         <Card className="mt-6">
           <CardHeader>
@@ -344,12 +1350,20 @@ export default function UploadPage() {
                 <div
                   key={index}
                   className={`flex items-center gap-3 p-3 rounded-lg border ${
-                    result.success
+                    isJobActive(result)
+                      ? 'border-blue-200 bg-blue-50 dark:border-blue-800 dark:bg-blue-950'
+                      : result.skipped
+                      ? 'border-yellow-200 bg-yellow-50 dark:border-yellow-800 dark:bg-yellow-950'
+                      : result.success
                       ? 'border-green-200 bg-green-50 dark:border-green-800 dark:bg-green-950'
                       : 'border-red-200 bg-red-50 dark:border-red-800 dark:bg-red-950'
                   }`}
                 >
-                  {result.success ? (
+                  {isJobActive(result) ? (
+                    <Loader2 className="h-5 w-5 animate-spin text-blue-600" />
+                  ) : result.skipped ? (
+                    <Copy className="h-5 w-5 text-yellow-600" />
+                  ) : result.success ? (
                     <CheckCircle className="h-5 w-5 text-green-600" />
                   ) : (
                     <AlertCircle className="h-5 w-5 text-red-600" />
@@ -359,9 +1373,65 @@ export default function UploadPage() {
                     {result.url && (
                       <p className="text-xs text-blue-600 truncate">{result.url}</p>
                     )}
-                    <p className="text-sm text-muted-foreground">{result.message}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {result.message}
+                      {!!result.retries && ` (${result.retries} ${result.retries === 1 ? 'retry' : 'retries'})`}
+                    </p>
+                    {result.pages && result.pages.length > 0 && (
+                      <details className="mt-2 text-xs">
+                        <summary className="cursor-pointer text-muted-foreground">Crawled pages</summary>
+                        <ul className="mt-1 space-y-1">
+                          {result.pages.map(page => (
+                            <li key={page.url} className="flex gap-2">
+                              <span className={
+                                page.status === 'failed' ? 'text-red-600' : page.status === 'skipped' ? 'text-yellow-600' : 'text-green-600'
+                              }>
+                                {page.status}
+                              </span>
+                              <span className="truncate">{page.url}</span>
+                              {page.error && <span className="text-red-600">{page.error}</span>}
+                            </li>
+                          ))}
+                        </ul>
+                      </details>
+                    )}
+                    {([['Imported files', result.files], ['Attachments', result.attachments]] as const).map(([label, files]) => files && files.length > 0 && (
+                      <details key={label} className="mt-2 text-xs">
+                        <summary className="cursor-pointer text-muted-foreground">{label}</summary>
+                        <ul className="mt-1 space-y-1">
+                          {files.map(file => (
+                            <li key={file.path} className="flex gap-2">
+                              <span className={
+                                file.status === 'failed' ? 'text-red-600' : file.status === 'ingested' ? 'text-green-600' : 'text-yellow-600'
+                              }>
+                                {file.status}
+                              </span>
+                              <span className="truncate">{file.path}</span>
+                              {file.duplicateOf && (
+                                <span className="text-muted-foreground">same as {file.duplicateOf.filename}</span>
+                              )}
+                              {file.error && <span className="text-red-600">{file.error}</span>}
+                            </li>
+                          ))}
+                        </ul>
+                      </details>
+                    ))}
+                    {isJobActive(result) && (
+                      <div className="mt-2">
+                        <div className="flex justify-between text-xs text-muted-foreground mb-1">
+                          <span>{STAGE_LABELS[result.stage ?? 'queued']}</span>
+                          <span>{result.progress ?? 0}%</span>
+                        </div>
+                        <div className="h-2 rounded bg-gray-200 dark:bg-gray-700 overflow-hidden">
+                          <div
+                            className="h-full bg-blue-600 transition-all"
+                            style={{ width: `${result.progress ?? 0}%` }}
+                          />
+                        </div>
+                      </div>
+                    )}
                   </div>
-                  {result.chunks && (
+                  {!!result.chunks && (
                     <span className="text-sm text-muted-foreground">
                       {result.chunks} chunks
                     </span>
@@ -0,0 +1,317 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Scissors, Pencil, Trash2, Star, Loader2, Plus } from 'lucide-react';
+import { ChunkingProfile } from '@/lib/database.types';
+import {
+  DEFAULT_CHUNKING_SETTINGS,
+  MAX_CHUNK_SIZE,
+  MIN_CHUNK_SIZE,
+  SPLITTER_TYPES,
+  SplitterType,
+} from '@/lib/chunking-profiles';
+
+interface ProfileForm {
+  name: string;
+  description: string;
+  splitter: SplitterType;
+  chunkSize: number;
+  chunkOverlap: number;
+  // Separators as a JSON list, so newlines and the empty string can be written
+  separators: string;
+  isDefault: boolean;
+}
+
+const EMPTY_FORM: ProfileForm = {
+  name: '',
+  description: '',
+  splitter: DEFAULT_CHUNKING_SETTINGS.splitter,
+  chunkSize: DEFAULT_CHUNKING_SETTINGS.chunkSize,
+  chunkOverlap: DEFAULT_CHUNKING_SETTINGS.chunkOverlap,
+  separators: JSON.stringify(DEFAULT_CHUNKING_SETTINGS.separators),
+  isDefault: false,
+};
+
+const SPLITTER_LABELS: Record<SplitterType, string> = {
+  recursive: 'Recursive (paragraphs, lines, words)',
+  markdown: 'Markdown',
+  character: 'Single separator',
+  token: 'Tokens',
+};
+
+// Admin management of the chunking profiles offered on the upload page
+export function ChunkingProfilesCard() {
+  const [profiles, setProfiles] = useState<ChunkingProfile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<ProfileForm | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchProfiles = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/chunking-profiles');
+      if (response.ok) {
+        const { profiles } = await response.json();
+        setProfiles(profiles);
+      } else {
+        console.error('Failed to fetch chunking profiles');
+      }
+    } catch (error) {
+      console.error('Error fetching chunking profiles:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchProfiles();
+  }, [fetchProfiles]);
+
+  const startEditing = (profile: ChunkingProfile | null) => {
+    setError(null);
+    setEditingId(profile?.id ?? null);
+    setForm(profile
+      ? {
+          name: profile.name,
+          description: profile.description ?? '',
+          splitter: profile.splitter,
+          chunkSize: profile.chunk_size,
+          chunkOverlap: profile.chunk_overlap,
+          separators: JSON.stringify(profile.separators),
+          isDefault: profile.is_default,
+        }
+      : EMPTY_FORM);
+  };
+
+  const saveProfile = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+
+    let separators: unknown;
+    try {
+      separators = JSON.parse(form.separators || '[]');
+    } catch {
+      setError('Separators must be a JSON list, e.g. ["\\n\\n", "\\n", " ", ""]');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(editingId ? `/api/chunking-profiles/${editingId}` : '/api/chunking-profiles', {
+        method: editingId ? 'PATCH' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ ...form, separators }),
+      });
+
+      if (!response.ok) {
+        const { error } = await response.json();
+        throw new Error(error ?? `Saving failed: ${response.statusText}`);
+      }
+
+      setForm(null);
+      setEditingId(null);
+      await fetchProfiles();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Saving failed');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteProfile = async (profile: ChunkingProfile) => {
+    if (!window.confirm(`Delete the chunking profile "${profile.name}"?`)) return;
+
+    setError(null);
+    try {
+      const response = await fetch(`/api/chunking-profiles/${profile.id}`, { method: 'DELETE' });
+
+      if (!response.ok) {
+        const { error } = await response.json();
+        throw new Error(error ?? `Delete failed: ${response.statusText}`);
+      }
+
+      await fetchProfiles();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Delete failed');
+    }
+  };
+
+  return (
+    <Card className="mt-8">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Scissors className="h-5 w-5" />
+              Chunking Profiles
+            </CardTitle>
+            <CardDescription>
+              Splitter settings users pick from when uploading. Changing a profile only affects documents chunked afterwards.
+            </CardDescription>
+          </div>
+          <Button onClick={() => startEditing(null)} variant="outline" disabled={form !== null}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Profile
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error && (
+          <p className="mb-4 text-sm text-red-600">{error}</p>
+        )}
+
+        {form && (
+          <form onSubmit={saveProfile} className="mb-6 p-4 border rounded-lg space-y-3 text-sm">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <label className="flex flex-col gap-1">
+                Name
+                <input
+                  className="p-2 border border-gray-300 rounded dark:bg-gray-800 dark:border-gray-600"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="FAQ"
+                  required
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                Description
+                <input
+                  className="p-2 border border-gray-300 rounded dark:bg-gray-800 dark:border-gray-600"
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  placeholder="Short chunks for question-and-answer pages"
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                Splitter
+                <select
+                  className="p-2 border border-gray-300 rounded dark:bg-gray-800 dark:border-gray-600"
+                  value={form.splitter}
+                  onChange={(e) => setForm({ ...form, splitter: e.target.value as SplitterType })}
+                >
+                  {SPLITTER_TYPES.map(splitter => (
+                    <option key={splitter} value={splitter}>{SPLITTER_LABELS[splitter]}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex flex-col gap-1">
+                Separators
+                <input
+                  className="p-2 font-mono border border-gray-300 rounded dark:bg-gray-800 dark:border-gray-600"
+                  value={form.separators}
+                  onChange={(e) => setForm({ ...form, separators: e.target.value })}
+                  disabled={form.splitter === 'markdown' || form.splitter === 'token'}
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                Chunk size ({form.splitter === 'token' ? 'tokens' : 'characters'})
+                <input
+                  type="number"
+                  min={MIN_CHUNK_SIZE}
+                  max={MAX_CHUNK_SIZE}
+                  className="p-2 border border-gray-300 rounded dark:bg-gray-800 dark:border-gray-600"
+                  value={form.chunkSize}
+                  onChange={(e) => setForm({ ...form, chunkSize: Number(e.target.value) })}
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                Overlap
+                <input
+                  type="number"
+                  min={0}
+                  className="p-2 border border-gray-300 rounded dark:bg-gray-800 dark:border-gray-600"
+                  value={form.chunkOverlap}
+                  onChange={(e) => setForm({ ...form, chunkOverlap: Number(e.target.value) })}
+                />
+              </label>
+            </div>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={form.isDefault}
+                onChange={(e) => setForm({ ...form, isDefault: e.target.checked })}
+                disabled={editingId !== null && profiles.find(p => p.id === editingId)?.is_default}
+              />
+              Default for new uploads
+            </label>
+            <div className="flex gap-2">
+              <Button type="submit" size="sm" disabled={saving}>
+                {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {editingId ? 'Save Changes' : 'Create Profile'}
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => { setForm(null); setEditingId(null); setError(null); }}
+              >
+                Cancel
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {loading ? (
+          <div className="text-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin mx-auto mb-4" />
+            <p className="text-muted-foreground">Loading profiles...</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {profiles.map(profile => (
+              <div key={profile.id} className="flex items-center justify-between p-4 border rounded-lg">
+                <div>
+                  <p className="font-medium flex items-center gap-2">
+                    {profile.name}
+                    {profile.is_default && <Star className="h-4 w-4 text-yellow-500" />}
+                  </p>
+                  {profile.description && (
+                    <p className="text-sm text-muted-foreground">{profile.description}</p>
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    {SPLITTER_LABELS[profile.splitter]} • {profile.chunk_size} {profile.splitter === 'token' ? 'tokens' : 'characters'} • {profile.chunk_overlap} overlap
+                  </p>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Edit profile"
+                    onClick={() => startEditing(profile)}
+                    disabled={form !== null}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Delete profile"
+                    onClick={() => deleteProfile(profile)}
+                    disabled={form !== null || profile.is_default}
+                  >
+                    <Trash2 className="h-4 w-4 text-red-600" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+
+            {profiles.length === 0 && (
+              <div className="text-center py-8 text-muted-foreground">
+                <Scissors className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                <p>No chunking profiles yet; uploads use the default settings</p>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,244 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Filter, X } from 'lucide-react';
+import { DocumentRecord, DocumentSourceType } from '@/lib/database.types';
+import { countSearchFilters, LANGUAGE_LABELS, SearchFilters, SOURCE_TYPE_LABELS } from '@/lib/search-filters';
+
+interface SearchFiltersPanelProps {
+  filters: SearchFilters;
+  onChange: (filters: SearchFilters) => void;
+  // Shown in front of the summary, e.g. "Only search in"
+  label?: string;
+  disabled?: boolean;
+}
+
+// Largest page /api/documents returns; the picker offers the first 100 documents by name
+const DOCUMENT_PAGE_SIZE = 100;
+
+const CHIP_CLASS = 'text-xs px-2 py-1 rounded border';
+const ACTIVE_CHIP_CLASS = 'bg-blue-100 text-blue-800 border-blue-300 dark:bg-blue-900 dark:text-blue-200 dark:border-blue-700';
+const INACTIVE_CHIP_CLASS = 'border-gray-300 text-gray-700 hover:bg-gray-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-800';
+
+// Filter controls for the search and chat pages. Tags and collections are
+// offered from the documents in the catalog.
+export function SearchFiltersPanel({ filters, onChange, label = 'Filters', disabled = false }: SearchFiltersPanelProps) {
+  const [open, setOpen] = useState(false);
+  const [documents, setDocuments] = useState<DocumentRecord[]>([]);
+  const [documentQuery, setDocumentQuery] = useState('');
+
+  useEffect(() => {
+    if (!open || documents.length > 0) return;
+
+    const fetchDocuments = async () => {
+      try {
+        const response = await fetch(`/api/documents?pageSize=${DOCUMENT_PAGE_SIZE}&sort=filename&order=asc`);
+        if (response.ok) {
+          const { documents } = await response.json();
+          setDocuments(documents);
+        } else {
+          console.error('Failed to fetch documents for filters');
+        }
+      } catch (error) {
+        console.error('Error fetching documents for filters:', error);
+      }
+    };
+
+    fetchDocuments();
+  }, [open, documents.length]);
+
+  const tags = useMemo(
+    () => [...new Set(documents.flatMap(doc => doc.tags))].sort((a, b) => a.localeCompare(b)),
+    [documents]
+  );
+  const collections = useMemo(
+    () => [...new Set(documents.map(doc => doc.collection).filter((name): name is string => !!name))].sort((a, b) => a.localeCompare(b)),
+    [documents]
+  );
+  const matchingDocuments = documents.filter(doc =>
+    doc.filename.toLowerCase().includes(documentQuery.trim().toLowerCase())
+  );
+
+  // Empty lists and dates are removed, so the filters stay as the API parses them
+  const update = <K extends keyof SearchFilters>(field: K, value: SearchFilters[K]) => {
+    const next = { ...filters, [field]: value };
+    if (!value || (Array.isArray(value) && value.length === 0)) {
+      delete next[field];
+    }
+    onChange(next);
+  };
+
+  const toggle = <K extends 'documentIds' | 'sourceTypes' | 'tags' | 'collections' | 'languages'>(
+    field: K,
+    value: NonNullable<SearchFilters[K]>[number]
+  ) => {
+    const current = (filters[field] ?? []) as string[];
+    const next = current.includes(value) ? current.filter(entry => entry !== value) : [...current, value];
+    update(field, next as SearchFilters[K]);
+  };
+
+  const chip = (active: boolean) => `${CHIP_CLASS} ${active ? ACTIVE_CHIP_CLASS : INACTIVE_CHIP_CLASS}`;
+
+  const documentName = (id: string) => documents.find(doc => doc.id === id)?.filename ?? 'document';
+
+  const summary = [
+    filters.documentIds && (filters.documentIds.length === 1
+      ? documentName(filters.documentIds[0])
+      : `${filters.documentIds.length} documents`),
+    filters.sourceTypes?.map(type => SOURCE_TYPE_LABELS[type]).join(', '),
+    filters.collections?.join(', '),
+    filters.tags?.map(tag => `#${tag}`).join(' '),
+    filters.languages?.map(language => LANGUAGE_LABELS[language] ?? language).join(', '),
+    (filters.dateFrom || filters.dateTo) && `${filters.dateFrom ?? '…'} – ${filters.dateTo ?? '…'}`,
+  ].filter(Boolean).join(' • ');
+
+  return (
+    <div className="text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={() => setOpen(!open)} disabled={disabled}>
+          <Filter className="h-4 w-4 mr-1" />
+          {label}
+          {countSearchFilters(filters) > 0 && ` (${countSearchFilters(filters)})`}
+        </Button>
+        <span className="text-muted-foreground">
+          {summary || 'All documents'}
+        </span>
+        {summary && (
+          <Button type="button" variant="ghost" size="sm" onClick={() => onChange({})} disabled={disabled}>
+            <X className="h-4 w-4 mr-1" />
+            Clear
+          </Button>
+        )}
+      </div>
+
+      {open && (
+        <div className="mt-3 p-3 border rounded-lg space-y-3">
+          <div>
+            <div className="font-medium mb-1">Documents</div>
+            <input
+              type="text"
+              value={documentQuery}
+              onChange={(e) => setDocumentQuery(e.target.value)}
+              placeholder="Find a document..."
+              className="w-full p-1 mb-2 border border-gray-300 rounded dark:bg-gray-800 dark:border-gray-600"
+              disabled={disabled}
+            />
+            <div className="max-h-40 overflow-y-auto space-y-1">
+              {matchingDocuments.length === 0 ? (
+                <p className="text-xs text-muted-foreground">No documents found</p>
+              ) : (
+                matchingDocuments.map(doc => (
+                  <label key={doc.id} className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={filters.documentIds?.includes(doc.id) ?? false}
+                      onChange={() => toggle('documentIds', doc.id)}
+                      disabled={disabled}
+                    />
+                    <span className="truncate">{doc.filename}</span>
+                  </label>
+                ))
+              )}
+            </div>
+          </div>
+
+          <div>
+            <div className="font-medium mb-1">Type</div>
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(SOURCE_TYPE_LABELS) as DocumentSourceType[]).map(type => (
+                <button
+                  key={type}
+                  type="button"
+                  className={chip(filters.sourceTypes?.includes(type) ?? false)}
+                  onClick={() => toggle('sourceTypes', type)}
+                  disabled={disabled}
+                >
+                  {SOURCE_TYPE_LABELS[type]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {collections.length > 0 && (
+            <div>
+              <div className="font-medium mb-1">Collection</div>
+              <div className="flex flex-wrap gap-2">
+                {collections.map(collection => (
+                  <button
+                    key={collection}
+                    type="button"
+                    className={chip(filters.collections?.includes(collection) ?? false)}
+                    onClick={() => toggle('collections', collection)}
+                    disabled={disabled}
+                  >
+                    {collection}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {tags.length > 0 && (
+            <div>
+              <div className="font-medium mb-1">Tags</div>
+              <div className="flex flex-wrap gap-2">
+                {tags.map(tag => (
+                  <button
+                    key={tag}
+                    type="button"
+                    className={chip(filters.tags?.includes(tag) ?? false)}
+                    onClick={() => toggle('tags', tag)}
+                    disabled={disabled}
+                  >
+                    {tag}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div>
+            <div className="font-medium mb-1">Language</div>
+            <div className="flex flex-wrap gap-2">
+              {Object.entries(LANGUAGE_LABELS).map(([language, languageLabel]) => (
+                <button
+                  key={language}
+                  type="button"
+                  className={chip(filters.languages?.includes(language) ?? false)}
+                  onClick={() => toggle('languages', language)}
+                  disabled={disabled}
+                >
+                  {languageLabel}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4">
+            <label className="flex items-center gap-2">
+              From
+              <input
+                type="date"
+                value={filters.dateFrom ?? ''}
+                onChange={(e) => update('dateFrom', e.target.value || undefined)}
+                className="p-1 border border-gray-300 rounded dark:bg-gray-800 dark:border-gray-600"
+                disabled={disabled}
+              />
+            </label>
+            <label className="flex items-center gap-2">
+              To
+              <input
+                type="date"
+                value={filters.dateTo ?? ''}
+                onChange={(e) => update('dateTo', e.target.value || undefined)}
+                className="p-1 border border-gray-300 rounded dark:bg-gray-800 dark:border-gray-600"
+                disabled={disabled}
+              />
+            </label>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+// Chunking settings shared by the admin and upload pages and the document
+// processor (utils/langchain-processing.ts)
+
+import type { ChunkingProfile } from './database.types'
+
+// 'recursive': tries the separators in order until chunks fit
+// 'markdown': recursive, on Markdown headings, lists and code blocks
+// 'character': splits on the first separator only
+// 'token': counts cl100k tokens instead of characters
+export type SplitterType = 'recursive' | 'markdown' | 'character' | 'token'
+
+export interface ChunkingSettings {
+  splitter: SplitterType
+  // Characters per chunk (tokens for the 'token' splitter)
+  chunkSize: number
+  chunkOverlap: number
+  separators: string[]
+}
+
+export const SPLITTER_TYPES: SplitterType[] = ['recursive', 'markdown', 'character', 'token']
+
+export const DEFAULT_CHUNKING_SETTINGS: ChunkingSettings = {
+  splitter: 'recursive',
+  chunkSize: 1000,
+  chunkOverlap: 200,
+  separators: ['\n\n', '\n', ' ', ''],
+}
+
+export const MIN_CHUNK_SIZE = 100
+export const MAX_CHUNK_SIZE = 8000
+
+// Settings of a catalog profile; documents without one use the defaults
+export function toChunkingSettings(profile: ChunkingProfile | null | undefined): ChunkingSettings {
+  if (!profile) {
+    return DEFAULT_CHUNKING_SETTINGS
+  }
+
+  return {
+    splitter: profile.splitter,
+    chunkSize: profile.chunk_size,
+    chunkOverlap: profile.chunk_overlap,
+    separators: profile.separators,
+  }
+}
+
+// Returns an error message for invalid settings (e.g. from a request body), otherwise null
+export function validateChunkingSettings(settings: Partial<ChunkingSettings>): string | null {
+  const { splitter, chunkSize, chunkOverlap, separators } = settings
+
+  if (!splitter || !SPLITTER_TYPES.includes(splitter)) {
+    return `Invalid splitter. Use one of: ${SPLITTER_TYPES.join(', ')}`
+  }
+
+  if (typeof chunkSize !== 'number' || !Number.isInteger(chunkSize) || chunkSize < MIN_CHUNK_SIZE || chunkSize > MAX_CHUNK_SIZE) {
+    return `Chunk size must be a whole number between ${MIN_CHUNK_SIZE} and ${MAX_CHUNK_SIZE}`
+  }
+
+  if (typeof chunkOverlap !== 'number' || !Number.isInteger(chunkOverlap) || chunkOverlap < 0 || chunkOverlap >= chunkSize) {
+    return 'Chunk overlap must be a whole number between 0 and the chunk size'
+  }
+
+  if (!Array.isArray(separators) || separators.some(separator => typeof separator !== 'string')) {
+    return 'Separators must be a list of strings'
+  }
+
+  if ((splitter === 'recursive' || splitter === 'character') && separators.length === 0) {
+    return `The ${splitter} splitter needs at least one separator`
+  }
+
+  return null
+}
@@ -0,0 +1,39 @@
+// Crawl settings shared by the upload page and the crawler (utils/web-crawler.ts)
+
+export type CrawlScope = 'domain' | 'path'
+
+export interface CrawlOptions {
+  // Link depth from the start URL (0 = only the start page)
+  maxDepth: number
+  maxPages: number
+  // 'domain': same host as the start URL; 'path': same host and below the start URL's directory
+  scope: CrawlScope
+  // Seed the crawl with the URLs listed in sitemap.xml
+  useSitemap: boolean
+  respectRobots: boolean
+}
+
+export const DEFAULT_CRAWL_OPTIONS: CrawlOptions = {
+  maxDepth: 2,
+  maxPages: 25,
+  scope: 'path',
+  useSitemap: true,
+  respectRobots: true,
+}
+
+export const MAX_CRAWL_DEPTH = 5
+export const MAX_CRAWL_PAGES = 200
+
+// Merges partial options (e.g. from a request body) with the defaults and clamps them to the limits
+export function resolveCrawlOptions(options: Partial<CrawlOptions> = {}): CrawlOptions {
+  const clamp = (value: unknown, fallback: number, max: number) =>
+    typeof value === 'number' && Number.isFinite(value) ? Math.min(Math.max(Math.floor(value), 0), max) : fallback
+
+  return {
+    maxDepth: clamp(options.maxDepth, DEFAULT_CRAWL_OPTIONS.maxDepth, MAX_CRAWL_DEPTH),
+    maxPages: Math.max(clamp(options.maxPages, DEFAULT_CRAWL_OPTIONS.maxPages, MAX_CRAWL_PAGES), 1),
+    scope: options.scope === 'domain' || options.scope === 'path' ? options.scope : DEFAULT_CRAWL_OPTIONS.scope,
+    useSitemap: typeof options.useSitemap === 'boolean' ? options.useSitemap : DEFAULT_CRAWL_OPTIONS.useSitemap,
+    respectRobots: typeof options.respectRobots === 'boolean' ? options.respectRobots : DEFAULT_CRAWL_OPTIONS.respectRobots,
+  }
+}
@@ -1,3 +1,5 @@
+import type { SplitterType } from './chunking-profiles'
+
 export interface UserProfile {
   id: string;
   email: string;
@@ -20,4 +22,151 @@ export interface UpdateUserProfileRequest {
   status?: 'active' | 'suspended';
   approved_by?: string;
   approved_at?: string;
-}
\ No newline at end of file
+}
+
+export type DocumentSourceType = 'pdf' | 'markdown' | 'docx' | 'html' | 'text' | 'csv' | 'email' | 'website'
+
+export type DocumentStatus = 'processing' | 'ready' | 'failed'
+
+// Tables are chunked on their own, so retrieval returns them intact
+export type ChunkContentType = 'text' | 'table'
+
+export type RefreshSchedule = 'manual' | 'daily' | 'weekly'
+
+export interface DocumentRecord {
+  id: string
+  filename: string
+  source_type: DocumentSourceType
+  url: string | null
+  mime_type: string | null
+  byte_size: number | null
+  chunk_count: number
+  content_hash: string | null
+  uploaded_by: string | null
+  created_at: string
+  updated_at: string
+  status: DocumentStatus
+  error: string | null
+  // Websites only: how often the page is re-fetched, when it was last
+  // fetched and when its content last changed
+  refresh_schedule: RefreshSchedule
+  last_checked_at: string | null
+  last_changed_at: string | null
+  // Chunking profile the document was last chunked with; null means the defaults
+  chunking_profile_id: string | null
+  // Set at upload or edited later; archive and folder imports default the
+  // collection to the archive or folder name and record the file's path inside it
+  collection: string | null
+  path: string | null
+  tags: string[]
+  // Email attachments: the email document they were attached to
+  parent_id: string | null
+}
+
+// Named chunking settings, managed by admins and picked per upload
+export interface ChunkingProfile {
+  id: string
+  name: string
+  description: string | null
+  splitter: SplitterType
+  chunk_size: number
+  chunk_overlap: number
+  separators: string[]
+  is_default: boolean
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+export type DocumentSortField = 'created_at' | 'filename' | 'chunk_count' | 'byte_size'
+
+export type IngestionJobKind = 'file' | 'url' | 'replace' | 'crawl' | 'rechunk' | 'archive'
+
+export type IngestionJobStatus = 'queued' | 'running' | 'completed' | 'failed'
+
+export type IngestionStage = 'queued' | 'extract' | 'split' | 'embed' | 'upsert' | 'done'
+
+export interface IngestionJobResult {
+  chunks: number
+  // Identical content was already in the knowledge base
+  skipped?: boolean
+  duplicateOf?: { id: string; filename: string }
+  // Re-ingested chunks were already stored, nothing was embedded
+  unchanged?: boolean
+  // Per-page report of a crawl job
+  pages?: CrawlPageResult[]
+  // Per-file report of an archive or folder import
+  files?: ArchiveFileResult[]
+  // Per-attachment report of an email; `path` is the attachment's filename
+  attachments?: ArchiveFileResult[]
+}
+
+// Dry run of /api/upload or /api/upload-url: extracted and split, nothing embedded
+export interface UploadPreview {
+  filename: string
+  sourceType: DocumentSourceType
+  characters: number
+  // PDFs only
+  pageCount: number | null
+  // ISO 639-1 code, declared by the page or detected from the text
+  language: string | null
+  totalChunks: number
+  averageChunkLength: number
+  // The first few chunks
+  chunks: PreviewChunk[]
+  chunkingProfile: string | null
+  // Identical content is already in the knowledge base
+  duplicateOf?: { id: string; filename: string }
+  // Emails only: filenames of the attachments, ingested as documents of their own
+  attachments?: string[]
+  // Signs of a bad extraction, e.g. a scanned PDF without a text layer
+  warnings: string[]
+}
+
+export interface PreviewChunk {
+  index: number
+  content: string
+  headingPath?: string
+  pageStart?: number
+  pageEnd?: number
+  // Set when the chunk's text was recognized by OCR (0 to 1)
+  ocrConfidence?: number
+  contentType: ChunkContentType
+}
+
+export interface ArchiveFileResult {
+  path: string
+  // 'skipped': identical content was already stored; 'unsupported': not a supported file type
+  status: 'ingested' | 'skipped' | 'unsupported' | 'failed'
+  documentId?: string
+  chunks: number
+  duplicateOf?: { id: string; filename: string }
+  error?: string
+}
+
+export interface CrawlPageResult {
+  url: string
+  depth: number
+  status: 'ingested' | 'skipped' | 'failed'
+  documentId?: string
+  chunks: number
+  error?: string
+}
+
+export interface IngestionJob {
+  id: string
+  document_id: string | null
+  kind: IngestionJobKind
+  filename: string
+  status: IngestionJobStatus
+  stage: IngestionStage
+  progress: number
+  message: string | null
+  retries: number
+  error: string | null
+  result: IngestionJobResult | null
+  created_by: string | null
+  created_at: string
+  updated_at: string
+  completed_at: string | null
+}
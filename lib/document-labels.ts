@@ -0,0 +1,25 @@
+// Tags and collections shared by the upload page and the upload and document APIs
+
+export const MAX_TAGS = 20
+export const MAX_LABEL_LENGTH = 100
+
+// Tags from a comma-separated string (e.g. "Mietrecht, Kanton Zürich") or a
+// list: trimmed, without empty entries and duplicates (ignoring case)
+export function parseTags(value: unknown): string[] {
+  const entries = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : []
+  const tags: string[] = []
+
+  for (const entry of entries) {
+    const tag = typeof entry === 'string' ? entry.trim().slice(0, MAX_LABEL_LENGTH) : ''
+    if (tag && !tags.some(existing => existing.toLowerCase() === tag.toLowerCase())) {
+      tags.push(tag)
+    }
+  }
+
+  return tags.slice(0, MAX_TAGS)
+}
+
+// A collection name, or null for none
+export function parseCollection(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim().slice(0, MAX_LABEL_LENGTH) : null
+}
@@ -0,0 +1,83 @@
+// Per-request retrieval settings shared by the search and chat pages and the
+// retrieval APIs (see DocumentProcessor.retrieve)
+
+// 'llm' has a chat model score the candidates, 'local' a cross-encoder running
+// on the server's CPU (see utils/reranker.ts). Off by default: 'llm' costs an
+// extra model call per search, and two per chat turn
+export type RerankerType = 'llm' | 'local' | 'none'
+
+export const RERANKER_TYPES: RerankerType[] = ['llm', 'local', 'none']
+
+// 'multi-query' also searches with paraphrases of the query and fuses the
+// results, 'hyde' searches the vectors with a hypothetical answer instead of
+// the query (see utils/query-rewriting.ts)
+export type QueryMode = 'single' | 'multi-query' | 'hyde'
+
+export const QUERY_MODES: QueryMode[] = ['single', 'multi-query', 'hyde']
+
+// 'neighbors' adds the chunks right before and after each match to the
+// context, 'section' the other chunks under the same heading
+export type ContextExpansion = 'none' | 'neighbors' | 'section'
+
+export const CONTEXT_EXPANSIONS: ContextExpansion[] = ['none', 'neighbors', 'section']
+
+export const MAX_CHUNKS_PER_DOCUMENT = 20
+
+export const MIN_CONTEXT_TOKENS = 500
+export const MAX_CONTEXT_TOKENS = 16000
+
+export interface RetrievalSettings {
+  // Share of the keyword (BM25) ranking when it is fused with the vector
+  // ranking: 0 uses vector search only, 1 keyword search only
+  keywordWeight: number
+  // How the candidates are reordered before the best ones are picked
+  reranker: RerankerType
+  // Maximal marginal relevance: how much relevance counts against difference
+  // from the chunks already picked; 1 picks by relevance only
+  mmrLambda: number
+  // Chunks picked from one document at most; 0 for no limit
+  maxChunksPerDocument: number
+  // What the knowledge base is searched with besides the query itself
+  queryMode: QueryMode
+  // What is added around the matches when building the chat context
+  contextExpansion: ContextExpansion
+  // Size limit of the chat context; matches are added first, best first, then
+  // the chunks around them while they fit. The chat lowers it when the request
+  // has fewer tokens left (see utils/chat-context.ts).
+  contextTokens: number
+}
+
+export const DEFAULT_RETRIEVAL_SETTINGS: RetrievalSettings = {
+  keywordWeight: 0.5,
+  reranker: 'none',
+  mmrLambda: 0.7,
+  maxChunksPerDocument: 2,
+  queryMode: 'single',
+  contextExpansion: 'none',
+  contextTokens: 4000,
+}
+
+// Merges partial settings (e.g. from a request body) with the defaults and clamps them to their ranges
+export function resolveRetrievalSettings(settings: Partial<Record<keyof RetrievalSettings, unknown>> = {}): RetrievalSettings {
+  const fraction = (value: unknown, fallback: number) =>
+    typeof value === 'number' && Number.isFinite(value) ? Math.min(Math.max(value, 0), 1) : fallback
+  const integer = (value: unknown, min: number, max: number, fallback: number) =>
+    typeof value === 'number' && Number.isFinite(value) ? Math.round(Math.min(Math.max(value, min), max)) : fallback
+  const oneOf = <T>(values: T[], value: unknown, fallback: T) =>
+    values.includes(value as T) ? value as T : fallback
+
+  return {
+    keywordWeight: fraction(settings.keywordWeight, DEFAULT_RETRIEVAL_SETTINGS.keywordWeight),
+    reranker: oneOf(RERANKER_TYPES, settings.reranker, DEFAULT_RETRIEVAL_SETTINGS.reranker),
+    mmrLambda: fraction(settings.mmrLambda, DEFAULT_RETRIEVAL_SETTINGS.mmrLambda),
+    maxChunksPerDocument: integer(
+      settings.maxChunksPerDocument,
+      0,
+      MAX_CHUNKS_PER_DOCUMENT,
+      DEFAULT_RETRIEVAL_SETTINGS.maxChunksPerDocument
+    ),
+    queryMode: oneOf(QUERY_MODES, settings.queryMode, DEFAULT_RETRIEVAL_SETTINGS.queryMode),
+    contextExpansion: oneOf(CONTEXT_EXPANSIONS, settings.contextExpansion, DEFAULT_RETRIEVAL_SETTINGS.contextExpansion),
+    contextTokens: integer(settings.contextTokens, MIN_CONTEXT_TOKENS, MAX_CONTEXT_TOKENS, DEFAULT_RETRIEVAL_SETTINGS.contextTokens),
+  }
+}
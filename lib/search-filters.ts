@@ -0,0 +1,101 @@
+// Metadata filters for search, sources and chat retrieval, shared by the
+// search and chat pages and the retrieval APIs
+
+import type { DocumentSourceType } from './database.types'
+
+export interface SearchFilters {
+  documentIds?: string[]
+  sourceTypes?: DocumentSourceType[]
+  // Chunks with any of these tags
+  tags?: string[]
+  collections?: string[]
+  // Document date range as YYYY-MM-DD, both ends included: the send date of
+  // emails, the modification date of websites, else the ingestion date
+  dateFrom?: string
+  dateTo?: string
+  // ISO 639-1 codes, see LANGUAGE_LABELS
+  languages?: string[]
+}
+
+export const SOURCE_TYPE_LABELS: Record<DocumentSourceType, string> = {
+  pdf: 'PDF',
+  markdown: 'Markdown',
+  docx: 'Word',
+  html: 'HTML',
+  text: 'Text',
+  csv: 'CSV',
+  email: 'Email',
+  website: 'Website',
+}
+
+// The languages utils/language-detection.ts recognizes
+export const LANGUAGE_LABELS: Record<string, string> = {
+  de: 'German',
+  fr: 'French',
+  it: 'Italian',
+  en: 'English',
+}
+
+const MAX_FILTER_VALUES = 100
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+// Filters from a request body; unknown fields and invalid values are dropped
+export function parseSearchFilters(value: unknown): SearchFilters {
+  if (!value || typeof value !== 'object') {
+    return {}
+  }
+
+  const input = value as Record<string, unknown>
+  const filters: SearchFilters = {
+    documentIds: stringList(input.documentIds),
+    sourceTypes: stringList(input.sourceTypes).filter(
+      (type): type is DocumentSourceType => type in SOURCE_TYPE_LABELS
+    ),
+    tags: stringList(input.tags),
+    collections: stringList(input.collections),
+    dateFrom: parseDate(input.dateFrom),
+    dateTo: parseDate(input.dateTo),
+    languages: stringList(input.languages).map(language => language.toLowerCase()),
+  }
+
+  // Leave out what is not set, so an empty object means "no filters"
+  return Object.fromEntries(
+    Object.entries(filters).filter(([, entry]) => Array.isArray(entry) ? entry.length > 0 : entry)
+  ) as SearchFilters
+}
+
+// Filters from query parameters, e.g. ?source=pdf&tag=Mietrecht&from=2024-01-01;
+// list parameters may be repeated
+export function searchFiltersFromParams(params: URLSearchParams): SearchFilters {
+  return parseSearchFilters({
+    documentIds: params.getAll('document'),
+    sourceTypes: params.getAll('source'),
+    tags: params.getAll('tag'),
+    collections: params.getAll('collection'),
+    dateFrom: params.get('from'),
+    dateTo: params.get('to'),
+    languages: params.getAll('language'),
+  })
+}
+
+export function countSearchFilters(filters: SearchFilters): number {
+  return Object.keys(filters).length
+}
+
+function stringList(value: unknown): string[] {
+  const entries = Array.isArray(value) ? value : []
+  const values = entries
+    .filter((entry): entry is string => typeof entry === 'string')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+  return [...new Set(values)].slice(0, MAX_FILTER_VALUES)
+}
+
+// Date.parse accepts days like 2024-02-30, so the date must survive a round trip
+function parseDate(value: unknown): string | undefined {
+  if (typeof value !== 'string' || !DATE_PATTERN.test(value)) {
+    return undefined
+  }
+  const time = Date.parse(value)
+  return !isNaN(time) && new Date(time).toISOString().startsWith(value) ? value : undefined
+}
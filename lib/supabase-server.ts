@@ -1,4 +1,5 @@
 import { createServerClient } from '@supabase/ssr'
+import { createClient, type SupabaseClient, type User } from '@supabase/supabase-js'
 import { cookies } from 'next/headers'
 
 export async function createSupabaseServerClient() {
@@ -26,4 +27,53 @@ export async function createSupabaseServerClient() {
       },
     }
   )
-}
\ No newline at end of file
+}
+
+// Returns the signed-in user if their account is approved, otherwise null
+export async function getActiveUser(supabase: SupabaseClient): Promise<User | null> {
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return null
+  }
+
+  const { data: profile } = await supabase
+    .from('user_profiles')
+    .select('status')
+    .eq('id', user.id)
+    .single()
+
+  return profile?.status === 'active' ? user : null
+}
+
+// Returns the signed-in user if they are an active admin, otherwise null
+export async function getAdminUser(supabase: SupabaseClient): Promise<User | null> {
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return null
+  }
+
+  const { data: profile } = await supabase
+    .from('user_profiles')
+    .select('role, status')
+    .eq('id', user.id)
+    .single()
+
+  return profile?.role === 'admin' && profile.status === 'active' ? user : null
+}
+
+// Service-role client for jobs that run without a signed-in user (e.g. the
+// scheduled website refresh). It bypasses RLS, so never use it for requests
+// on behalf of a user.
+export function createSupabaseServiceClient(): SupabaseClient {
+  if (!process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    throw new Error('SUPABASE_SERVICE_ROLE_KEY environment variable is not set')
+  }
+
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY,
+    { auth: { persistSession: false, autoRefreshToken: false } }
+  )
+}
@@ -3,4 +3,34 @@ import { twMerge } from "tailwind-merge"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
-} 
\ No newline at end of file
+}
+
+// Page label for a chunk, e.g. "p. 3" or "pp. 3–5"; null without pages
+export function formatPageRange(pageStart?: number, pageEnd?: number): string | null {
+  if (!pageStart) return null
+  return pageEnd && pageEnd !== pageStart ? `pp. ${pageStart}–${pageEnd}` : `p. ${pageStart}`
+}
+
+// Label for chunks whose text was recognized by OCR, e.g. "OCR 87%"
+export function formatOcrConfidence(confidence?: number): string | null {
+  if (confidence === undefined) return null
+  return `OCR ${Math.round(confidence * 100)}%`
+}
+
+// How answers cite an email or one of its attachments, e.g.
+// "E-Mail von Anna Muster vom 3. März 2025"; null for other documents
+export function formatEmailCitation(metadata: {
+  filename?: string
+  emailFrom?: string
+  emailDate?: string
+  parentDocumentId?: string
+}): string | null {
+  if (!metadata.emailFrom) return null
+  // "Name <address>" is cited by name
+  const sender = metadata.emailFrom.replace(/\s*<[^>]*>$/, '') || metadata.emailFrom
+  const date = metadata.emailDate
+    ? ` vom ${new Date(metadata.emailDate).toLocaleDateString('de-CH', { day: 'numeric', month: 'long', year: 'numeric', timeZone: 'Europe/Zurich' })}`
+    : ''
+  const email = `E-Mail von ${sender}${date}`
+  return metadata.parentDocumentId ? `${metadata.filename}, Anhang der ${email}` : email
+}
@@ -3,6 +3,8 @@ import type { NextConfig } from "next";
 const nextConfig: NextConfig = {
   serverExternalPackages: [
     'pdf-parse',
+    'tesseract.js',
+    '@huggingface/transformers',
     'langchain',
     '@langchain/openai',
     '@langchain/pinecone',
@@ -60,6 +60,253 @@ CREATE TRIGGER on_auth_user_created
     AFTER INSERT ON auth.users
     FOR EACH ROW EXECUTE FUNCTION public.handle_new_user();
 
+-- Create documents table (catalog of everything stored in the knowledge base)
+CREATE TABLE IF NOT EXISTS documents (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    filename TEXT NOT NULL,
+    source_type TEXT NOT NULL CHECK (source_type IN ('pdf', 'markdown', 'docx', 'html', 'text', 'csv', 'email', 'website')),
+    url TEXT,
+    mime_type TEXT,
+    byte_size BIGINT,
+    chunk_count INTEGER NOT NULL DEFAULT 0,
+    content_hash TEXT,
+    uploaded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    status TEXT NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'ready', 'failed')),
+    error TEXT
+);
+
+CREATE INDEX IF NOT EXISTS documents_created_at_idx ON documents (created_at DESC);
+CREATE INDEX IF NOT EXISTS documents_content_hash_idx ON documents (content_hash);
+
+-- Refresh schedule and change tracking for website documents
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS refresh_schedule TEXT NOT NULL DEFAULT 'manual'
+    CHECK (refresh_schedule IN ('manual', 'daily', 'weekly'));
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS last_checked_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS last_changed_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS documents_refresh_idx ON documents (refresh_schedule, last_checked_at)
+    WHERE source_type = 'website';
+
+-- Named chunking settings; admins manage them, every upload picks one
+CREATE TABLE IF NOT EXISTS chunking_profiles (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL UNIQUE,
+    description TEXT,
+    splitter TEXT NOT NULL DEFAULT 'recursive' CHECK (splitter IN ('recursive', 'markdown', 'character', 'token')),
+    chunk_size INTEGER NOT NULL CHECK (chunk_size > 0),
+    chunk_overlap INTEGER NOT NULL DEFAULT 0 CHECK (chunk_overlap >= 0 AND chunk_overlap < chunk_size),
+    separators TEXT[] NOT NULL DEFAULT ARRAY[E'\n\n', E'\n', ' ', ''],
+    is_default BOOLEAN NOT NULL DEFAULT FALSE,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- At most one default profile, used when an upload does not pick one
+CREATE UNIQUE INDEX IF NOT EXISTS chunking_profiles_default_idx ON chunking_profiles (is_default) WHERE is_default;
+
+INSERT INTO chunking_profiles (name, description, splitter, chunk_size, chunk_overlap, is_default)
+VALUES ('Standard', 'Paragraph-aware chunks of about 1000 characters', 'recursive', 1000, 200, TRUE)
+ON CONFLICT (name) DO NOTHING;
+
+ALTER TABLE chunking_profiles ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated read access" ON chunking_profiles;
+DROP POLICY IF EXISTS "Authenticated write access" ON chunking_profiles;
+
+-- All authenticated users can read and write profiles (authorization in API)
+CREATE POLICY "Authenticated read access" ON chunking_profiles
+    FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Authenticated write access" ON chunking_profiles
+    FOR ALL USING (auth.uid() IS NOT NULL) WITH CHECK (auth.uid() IS NOT NULL);
+
+-- Profile each document was last chunked with
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS chunking_profile_id UUID
+    REFERENCES chunking_profiles(id) ON DELETE SET NULL;
+
+-- Collection set at upload (archive and folder imports default to the archive
+-- or folder name) and, for imports, the file's path inside the archive
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS collection TEXT;
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS path TEXT;
+
+CREATE INDEX IF NOT EXISTS documents_collection_idx ON documents (collection) WHERE collection IS NOT NULL;
+
+-- User-defined tags, copied to every chunk's metadata for retrieval filters
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS documents_tags_idx ON documents USING GIN (tags);
+
+-- Email attachments are documents of their own, linked to the email they came with
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES documents(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS documents_parent_id_idx ON documents (parent_id) WHERE parent_id IS NOT NULL;
+
+-- Extracted text of each document, kept so it can be re-chunked without the original file
+CREATE TABLE IF NOT EXISTS document_contents (
+    document_id UUID PRIMARY KEY REFERENCES documents(id) ON DELETE CASCADE,
+    text TEXT NOT NULL,
+    -- PDF pages and outline, website title, canonical URL, language and last-modified date
+    details JSONB NOT NULL DEFAULT '{}',
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE document_contents ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated read access" ON document_contents;
+DROP POLICY IF EXISTS "Authenticated write access" ON document_contents;
+
+-- All authenticated users can read and write contents (authorization in API)
+CREATE POLICY "Authenticated read access" ON document_contents
+    FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Authenticated write access" ON document_contents
+    FOR ALL USING (auth.uid() IS NOT NULL) WITH CHECK (auth.uid() IS NOT NULL);
+
+ALTER TABLE documents ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated read access" ON documents;
+DROP POLICY IF EXISTS "Authenticated write access" ON documents;
+
+-- All authenticated users can read and write the catalog (authorization in API)
+CREATE POLICY "Authenticated read access" ON documents
+    FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Authenticated write access" ON documents
+    FOR ALL USING (auth.uid() IS NOT NULL) WITH CHECK (auth.uid() IS NOT NULL);
+
+-- Catalog totals for the upload page, computed in the database so they are not
+-- limited by the API row cap
+CREATE OR REPLACE FUNCTION public.document_catalog_stats()
+RETURNS JSON AS $$
+    SELECT json_build_object(
+        'total_documents', (SELECT COUNT(*) FROM documents),
+        'total_chunks', (SELECT COALESCE(SUM(chunk_count), 0) FROM documents),
+        'by_status', (
+            SELECT COALESCE(json_object_agg(status, n), '{}'::json)
+            FROM (SELECT status, COUNT(*) AS n FROM documents GROUP BY status) s
+        )
+    );
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
+
+-- Create ingestion_jobs table (progress of background document ingestion)
+CREATE TABLE IF NOT EXISTS ingestion_jobs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    document_id UUID REFERENCES documents(id) ON DELETE SET NULL,
+    kind TEXT NOT NULL CHECK (kind IN ('file', 'url', 'replace', 'crawl', 'rechunk', 'archive')),
+    filename TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+    stage TEXT NOT NULL DEFAULT 'queued' CHECK (stage IN ('queued', 'extract', 'split', 'embed', 'upsert', 'done')),
+    progress INTEGER NOT NULL DEFAULT 0 CHECK (progress BETWEEN 0 AND 100),
+    message TEXT,
+    retries INTEGER NOT NULL DEFAULT 0,
+    error TEXT,
+    result JSONB,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS ingestion_jobs_created_by_idx ON ingestion_jobs (created_by, created_at DESC);
+
+ALTER TABLE ingestion_jobs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated read access" ON ingestion_jobs;
+DROP POLICY IF EXISTS "Authenticated write access" ON ingestion_jobs;
+
+-- All authenticated users can read and write jobs (authorization in API)
+CREATE POLICY "Authenticated read access" ON ingestion_jobs
+    FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Authenticated write access" ON ingestion_jobs
+    FOR ALL USING (auth.uid() IS NOT NULL) WITH CHECK (auth.uid() IS NOT NULL);
+
+-- Keyword index: the terms of every stored chunk (see utils/keyword-index.ts),
+-- searched with BM25 alongside the Pinecone vectors
+CREATE TABLE IF NOT EXISTS document_chunks (
+    -- Pinecone vector ID of the chunk
+    id TEXT PRIMARY KEY,
+    document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+    -- Lowercased terms in text order, repeated as often as they occur
+    terms TEXT[] NOT NULL,
+    term_count INTEGER NOT NULL,
+    -- Copied from the chunk metadata for the language and date filters
+    language TEXT,
+    document_date TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS document_chunks_document_id_idx ON document_chunks (document_id);
+CREATE INDEX IF NOT EXISTS document_chunks_terms_idx ON document_chunks USING GIN (terms);
+
+ALTER TABLE document_chunks ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated read access" ON document_chunks;
+DROP POLICY IF EXISTS "Authenticated write access" ON document_chunks;
+
+-- All authenticated users can read and write the index (authorization in API)
+CREATE POLICY "Authenticated read access" ON document_chunks
+    FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Authenticated write access" ON document_chunks
+    FOR ALL USING (auth.uid() IS NOT NULL) WITH CHECK (auth.uid() IS NOT NULL);
+
+-- BM25 (k1 = 1.2, b = 0.75) over the chunks containing any of the query terms,
+-- with the same filters as the vector search; NULL filters match everything.
+-- Source type, tags and collection are read from the catalog entry.
+CREATE OR REPLACE FUNCTION public.search_document_chunks(
+    query_terms TEXT[],
+    match_count INTEGER,
+    filter_document_ids UUID[] DEFAULT NULL,
+    filter_source_types TEXT[] DEFAULT NULL,
+    filter_tags TEXT[] DEFAULT NULL,
+    filter_collections TEXT[] DEFAULT NULL,
+    filter_languages TEXT[] DEFAULT NULL,
+    filter_date_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    filter_date_to TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TABLE (id TEXT, score DOUBLE PRECISION) AS $$
+    WITH corpus AS (
+        SELECT COUNT(*)::float AS chunk_count, GREATEST(AVG(term_count), 1)::float AS average_length
+        FROM document_chunks
+    ),
+    frequencies AS (
+        SELECT q.term, COUNT(c.id)::float AS chunks_with_term
+        FROM unnest(query_terms) AS q(term)
+        LEFT JOIN document_chunks c ON c.terms @> ARRAY[q.term]
+        GROUP BY q.term
+    ),
+    candidates AS (
+        SELECT c.id, c.terms, c.term_count
+        FROM document_chunks c
+        JOIN documents d ON d.id = c.document_id
+        WHERE c.terms && query_terms
+            AND (filter_document_ids IS NULL OR c.document_id = ANY(filter_document_ids))
+            AND (filter_source_types IS NULL OR d.source_type = ANY(filter_source_types))
+            AND (filter_tags IS NULL OR d.tags && filter_tags)
+            AND (filter_collections IS NULL OR d.collection = ANY(filter_collections))
+            AND (filter_languages IS NULL OR c.language = ANY(filter_languages))
+            AND (filter_date_from IS NULL OR c.document_date >= filter_date_from)
+            AND (filter_date_to IS NULL OR c.document_date <= filter_date_to)
+    )
+    SELECT c.id, SUM(
+        ln(1 + (corpus.chunk_count - f.chunks_with_term + 0.5) / (f.chunks_with_term + 0.5))
+        * (tf.occurrences * 2.2)
+        / (tf.occurrences + 1.2 * (0.25 + 0.75 * c.term_count / corpus.average_length))
+    ) AS score
+    FROM candidates c
+    CROSS JOIN corpus
+    JOIN frequencies f ON c.terms @> ARRAY[f.term]
+    CROSS JOIN LATERAL (
+        SELECT COUNT(*)::float AS occurrences FROM unnest(c.terms) AS t(term) WHERE t.term = f.term
+    ) tf
+    GROUP BY c.id
+    ORDER BY score DESC
+    LIMIT match_count;
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
+
 -- Create the first admin user (replace with your email)
 -- This should be run manually after creating your account
 -- INSERT INTO user_profiles (id, email, full_name, role, status, approved_at)
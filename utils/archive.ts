@@ -0,0 +1,107 @@
+import JSZip from 'jszip';
+
+// A file of a zip archive or an uploaded folder, with its path inside it
+export interface ArchiveFile {
+  path: string;
+  buffer: Buffer;
+}
+
+export const MAX_ARCHIVE_FILES = 500;
+// Uncompressed; zip entries are unpacked as a stream and dropped once the
+// total passes this, so a small zip cannot unpack into gigabytes
+export const MAX_ARCHIVE_BYTES = 200 * 1024 * 1024;
+
+// Operating system clutter that is never worth reporting
+const IGNORED_PATH = /(?:^|\/)(?:__MACOSX|\.[^/]*|Thumbs\.db|desktop\.ini)(?:\/|$)/i;
+
+export function isIgnoredArchivePath(path: string): boolean {
+  return IGNORED_PATH.test(path);
+}
+
+// Forward slashes, no leading './' or '/', and no '..' segments
+export function normalizeArchivePath(path: string): string {
+  return path
+    .replace(/\\/g, '/')
+    .split('/')
+    .filter(segment => segment && segment !== '.' && segment !== '..')
+    .join('/');
+}
+
+// Unpacks the files of a zip archive, skipping directories and OS clutter
+export async function readZipArchive(buffer: Buffer): Promise<ArchiveFile[]> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(buffer);
+  } catch (error) {
+    throw new Error(`Failed to read zip archive: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  const entries = Object.values(zip.files).filter(entry => !entry.dir && !isIgnoredArchivePath(entry.name));
+
+  checkFileCount(entries.length);
+
+  const files: ArchiveFile[] = [];
+  let totalBytes = 0;
+
+  for (const entry of entries) {
+    const content = await unpackEntry(entry, totalBytes);
+    totalBytes += content.length;
+
+    const path = normalizeArchivePath(entry.name);
+    if (path) {
+      files.push({ path, buffer: content });
+    }
+  }
+
+  return files;
+}
+
+// Unpacks one entry chunk by chunk, stopping as soon as the archive's running
+// total passes MAX_ARCHIVE_BYTES (the sizes declared in the zip can lie)
+function unpackEntry(entry: JSZip.JSZipObject, bytesBefore: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const parts: Buffer[] = [];
+    let totalBytes = bytesBefore;
+    const stream = entry.nodeStream('nodebuffer');
+
+    stream.on('data', (part: Buffer) => {
+      totalBytes += part.length;
+      try {
+        checkTotalBytes(totalBytes);
+      } catch (error) {
+        // A paused stream stops pulling from JSZip, so nothing more is unpacked
+        stream.pause();
+        stream.removeAllListeners();
+        reject(error);
+        return;
+      }
+      parts.push(part);
+    });
+    stream.on('end', () => resolve(Buffer.concat(parts)));
+    stream.on('error', error => reject(new Error(`Failed to unpack ${entry.name}: ${error.message}`)));
+  });
+}
+
+// The files of a folder picked in the browser, with their relative paths
+export function readFolderUpload(files: ArchiveFile[]): ArchiveFile[] {
+  const kept = files
+    .map(file => ({ path: normalizeArchivePath(file.path), buffer: file.buffer }))
+    .filter(file => file.path && !isIgnoredArchivePath(file.path));
+
+  checkFileCount(kept.length);
+  checkTotalBytes(kept.reduce((sum, file) => sum + file.buffer.length, 0));
+
+  return kept;
+}
+
+function checkFileCount(count: number): void {
+  if (count > MAX_ARCHIVE_FILES) {
+    throw new Error(`The archive holds ${count} files; at most ${MAX_ARCHIVE_FILES} can be imported at once`);
+  }
+}
+
+function checkTotalBytes(bytes: number): void {
+  if (bytes > MAX_ARCHIVE_BYTES) {
+    throw new Error(`The archive unpacks to more than ${MAX_ARCHIVE_BYTES / (1024 * 1024)} MB`);
+  }
+}
@@ -0,0 +1,67 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { DocumentSourceType } from '@/lib/database.types';
+import { documentProcessor } from './langchain-processing';
+import { importDocumentRecords, listDocumentRecords, MAX_PAGE_SIZE } from './document-catalog';
+import { hasKeywordIndex, indexChunks } from './keyword-index';
+
+export interface CatalogBackfillResult {
+  // Documents found in Pinecone
+  documents: number;
+  // Catalog entries created for those that had none
+  created: number;
+  // Documents whose chunks were added to the keyword index
+  indexed: number;
+  // Documents whose keyword indexing failed, with the reason
+  failed: Array<{ id: string; filename: string; error: string }>;
+}
+
+// Creates catalog entries for documents stored in Pinecone before the catalog
+// existed, so they are listed, counted and can be deleted like any other, and
+// adds the chunks of documents stored before the keyword index existed to it.
+// `reindex` indexes every document again, e.g. after the tokenizer changed.
+// Work that is done already is left alone, so this can run again.
+export async function backfillCatalog(
+  supabase: SupabaseClient,
+  { reindex = false }: { reindex?: boolean } = {}
+): Promise<CatalogBackfillResult> {
+  const stored = await documentProcessor.listStoredDocuments();
+
+  const created = await importDocumentRecords(supabase, stored.map(document => ({
+    id: document.id,
+    filename: document.filename,
+    source_type: document.source as DocumentSourceType,
+    url: document.url,
+    chunk_count: document.chunkCount,
+    created_at: document.timestamp,
+  })));
+
+  let indexed = 0;
+  const failed: CatalogBackfillResult['failed'] = [];
+
+  for (let page = 1; ; page++) {
+    const { documents, count } = await listDocumentRecords(supabase, { page, pageSize: MAX_PAGE_SIZE, sort: 'created_at', order: 'asc' });
+
+    for (const document of documents) {
+      if (document.status !== 'ready') {
+        continue;
+      }
+      try {
+        if (reindex || !(await hasKeywordIndex(supabase, document.id))) {
+          await indexChunks(supabase, document.id, await documentProcessor.getDocumentChunks(document.id));
+          indexed++;
+        }
+      } catch (error) {
+        // One document that cannot be indexed does not stop the others
+        console.error(`Catalog backfill: failed to index keywords of document ${document.id}:`, error);
+        failed.push({ id: document.id, filename: document.filename, error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+
+    if (page * MAX_PAGE_SIZE >= count) {
+      break;
+    }
+  }
+
+  console.log(`Catalog backfill: ${created} of ${stored.length} stored documents added to the catalog, keywords of ${indexed} indexed`);
+  return { documents: stored.length, created, indexed, failed };
+}
@@ -0,0 +1,109 @@
+import { generateText } from 'ai';
+import { openai } from '@ai-sdk/openai';
+import { createHistorySummaryPrompt, HISTORY_SUMMARY_SYSTEM_PROMPT } from './prompts';
+import { ChatMessage, messageText } from './query-rewriting';
+import { countTokens, getModelLimits, MESSAGE_OVERHEAD_TOKENS } from './token-counting';
+
+// How the tokens of a chat request are shared, besides the system prompt and
+// the question
+export interface TokenBudget {
+  // Longest answer the model may give
+  answer: number;
+  // Retrieved context, at most
+  context: number;
+  // Earlier messages; they also get what the context leaves unused
+  history: number;
+}
+
+// The history that fits into its budget
+export interface FittedHistory {
+  messages: ChatMessage[];
+  // Summary of the older messages that did not fit, if any
+  summary?: string;
+}
+
+// Matches the chat context is filled from, best first, as far as the budget allows
+export const MAX_CONTEXT_CHUNKS = 10;
+
+// Tokens of a chat request, prompt and answer together. Far below the models'
+// context windows, to bound cost and latency.
+const REQUEST_TOKENS = 16000;
+const ANSWER_TOKENS = 2000;
+// Share of what is left for context and history that the context may take
+const CONTEXT_SHARE = 0.6;
+
+const SUMMARY_MODEL = 'gpt-4o-mini';
+const SUMMARY_TOKENS = 300;
+// Older messages summarized at most; the oldest are left out beyond this
+const MAX_SUMMARY_INPUT_TOKENS = 8000;
+
+// `prompts` are what the request contains anyway, i.e. the system prompt and
+// the question in its prompt template. The context gets at most `maxContextTokens`.
+export function allocateTokenBudget(model: string, prompts: string[], maxContextTokens: number): TokenBudget {
+  const limits = getModelLimits(model);
+  const answer = Math.min(ANSWER_TOKENS, limits.maxOutputTokens);
+  const promptTokens = prompts.reduce((sum, prompt) => sum + countTokens(prompt, model) + MESSAGE_OVERHEAD_TOKENS, 0);
+  const available = Math.max(0, Math.min(REQUEST_TOKENS, limits.contextWindow) - answer - promptTokens);
+  const context = Math.min(maxContextTokens, Math.floor(available * CONTEXT_SHARE));
+
+  return { answer, context, history: available - context };
+}
+
+// The latest messages that fit into `budget` tokens. The older ones are
+// replaced by a summary, room for which is made by leaving out more messages;
+// if summarizing fails they are left out.
+export async function fitHistory(messages: ChatMessage[], budget: number, model: string): Promise<FittedHistory> {
+  const tokens = messages.map(message => countTokens(messageText(message), model) + MESSAGE_OVERHEAD_TOKENS);
+  let used = 0;
+  let start = messages.length;
+
+  while (start > 0 && used + tokens[start - 1] <= budget) {
+    used += tokens[--start];
+  }
+
+  if (start === 0) {
+    return { messages };
+  }
+
+  while (start < messages.length && used + SUMMARY_TOKENS > budget) {
+    used -= tokens[start++];
+  }
+
+  const summary = used + SUMMARY_TOKENS <= budget ? await summarizeMessages(messages.slice(0, start)) : null;
+  console.log(`Left ${start} of ${messages.length} earlier messages out of the prompt${summary ? ', summarized' : ''}`);
+  return { messages: messages.slice(start), ...(summary && { summary }) };
+}
+
+async function summarizeMessages(messages: ChatMessage[]): Promise<string | null> {
+  const history: Array<{ role: string; text: string }> = [];
+  let tokens = 0;
+
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const text = messageText(messages[i]).trim();
+    tokens += countTokens(text, SUMMARY_MODEL);
+    if (tokens > MAX_SUMMARY_INPUT_TOKENS) {
+      break;
+    }
+    if (text) {
+      history.unshift({ role: messages[i].role, text });
+    }
+  }
+
+  if (history.length === 0) {
+    return null;
+  }
+
+  try {
+    const { text } = await generateText({
+      model: openai(SUMMARY_MODEL),
+      system: HISTORY_SUMMARY_SYSTEM_PROMPT,
+      prompt: createHistorySummaryPrompt(history),
+      maxOutputTokens: SUMMARY_TOKENS,
+      temperature: 0,
+    });
+    return text.trim() || null;
+  } catch (error) {
+    console.error('Summarizing earlier messages failed, leaving them out:', error);
+    return null;
+  }
+}
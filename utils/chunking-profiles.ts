@@ -0,0 +1,157 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ChunkingProfile } from '@/lib/database.types';
+import { ChunkingSettings } from '@/lib/chunking-profiles';
+
+export interface ChunkingProfileInput extends ChunkingSettings {
+  name: string;
+  description?: string | null;
+  isDefault?: boolean;
+}
+
+function toRow(input: Partial<ChunkingProfileInput>) {
+  return {
+    ...(input.name !== undefined && { name: input.name }),
+    ...(input.description !== undefined && { description: input.description }),
+    ...(input.splitter !== undefined && { splitter: input.splitter }),
+    ...(input.chunkSize !== undefined && { chunk_size: input.chunkSize }),
+    ...(input.chunkOverlap !== undefined && { chunk_overlap: input.chunkOverlap }),
+    ...(input.separators !== undefined && { separators: input.separators }),
+    ...(input.isDefault !== undefined && { is_default: input.isDefault }),
+  };
+}
+
+export async function listChunkingProfiles(supabase: SupabaseClient): Promise<ChunkingProfile[]> {
+  const { data, error } = await supabase
+    .from('chunking_profiles')
+    .select('*')
+    .order('is_default', { ascending: false })
+    .order('name');
+
+  if (error) {
+    throw new Error(`Failed to list chunking profiles: ${error.message}`);
+  }
+
+  return (data ?? []) as ChunkingProfile[];
+}
+
+export async function getChunkingProfile(supabase: SupabaseClient, id: string): Promise<ChunkingProfile | null> {
+  const { data, error } = await supabase
+    .from('chunking_profiles')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch chunking profile: ${error.message}`);
+  }
+
+  return data as ChunkingProfile | null;
+}
+
+// The profile with this ID, or the default profile when no ID is given. Null
+// if the ID is unknown, or no ID is given and there is no default profile.
+export async function resolveChunkingProfile(
+  supabase: SupabaseClient,
+  id?: string | null
+): Promise<ChunkingProfile | null> {
+  if (id) {
+    return getChunkingProfile(supabase, id);
+  }
+
+  const { data, error } = await supabase
+    .from('chunking_profiles')
+    .select('*')
+    .eq('is_default', true)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch default chunking profile: ${error.message}`);
+  }
+
+  return data as ChunkingProfile | null;
+}
+
+export async function createChunkingProfile(
+  supabase: SupabaseClient,
+  input: ChunkingProfileInput,
+  createdBy: string
+): Promise<ChunkingProfile> {
+  if (input.isDefault) {
+    await clearDefaultChunkingProfile(supabase);
+  }
+
+  const { data, error } = await supabase
+    .from('chunking_profiles')
+    .insert({ ...toRow(input), created_by: createdBy })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create chunking profile: ${error.message}`);
+  }
+
+  return data as ChunkingProfile;
+}
+
+export async function updateChunkingProfile(
+  supabase: SupabaseClient,
+  id: string,
+  input: Partial<ChunkingProfileInput>
+): Promise<ChunkingProfile> {
+  if (input.isDefault) {
+    await clearDefaultChunkingProfile(supabase);
+  }
+
+  const { data, error } = await supabase
+    .from('chunking_profiles')
+    .update({ ...toRow(input), updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to update chunking profile: ${error.message}`);
+  }
+
+  return data as ChunkingProfile;
+}
+
+export async function deleteChunkingProfile(supabase: SupabaseClient, id: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('chunking_profiles')
+    .delete()
+    .eq('id', id)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to delete chunking profile: ${error.message}`);
+  }
+
+  return (data?.length ?? 0) > 0;
+}
+
+// Number of documents last chunked with the profile
+export async function countDocumentsUsingProfile(supabase: SupabaseClient, id: string): Promise<number> {
+  const { count, error } = await supabase
+    .from('documents')
+    .select('id', { count: 'exact', head: true })
+    .eq('chunking_profile_id', id);
+
+  if (error) {
+    throw new Error(`Failed to count documents using chunking profile: ${error.message}`);
+  }
+
+  return count ?? 0;
+}
+
+// Only one profile can be the default (see chunking_profiles_default_idx)
+async function clearDefaultChunkingProfile(supabase: SupabaseClient): Promise<void> {
+  const { error } = await supabase
+    .from('chunking_profiles')
+    .update({ is_default: false })
+    .eq('is_default', true);
+
+  if (error) {
+    throw new Error(`Failed to clear default chunking profile: ${error.message}`);
+  }
+}
@@ -0,0 +1,265 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { DocumentRecord, DocumentSortField, DocumentSourceType, DocumentStatus, RefreshSchedule } from '@/lib/database.types';
+import type { ExtractedDocument } from './langchain-processing';
+
+export interface NewDocumentRecord {
+  id?: string;
+  filename: string;
+  source_type: DocumentSourceType;
+  url?: string;
+  mime_type?: string;
+  byte_size?: number;
+  uploaded_by?: string;
+  refresh_schedule?: RefreshSchedule;
+  chunking_profile_id?: string;
+  collection?: string;
+  path?: string;
+  tags?: string[];
+  parent_id?: string;
+}
+
+export type DocumentRecordUpdate = Partial<Omit<DocumentRecord, 'id' | 'created_at'>>;
+
+export interface ListDocumentsOptions {
+  page?: number;
+  pageSize?: number;
+  sort?: DocumentSortField;
+  order?: 'asc' | 'desc';
+}
+
+export const SORT_FIELDS: DocumentSortField[] = ['created_at', 'filename', 'chunk_count', 'byte_size'];
+export const MAX_PAGE_SIZE = 100;
+const IMPORT_BATCH_SIZE = 500;
+
+export const REFRESH_SCHEDULES: RefreshSchedule[] = ['manual', 'daily', 'weekly'];
+
+const REFRESH_INTERVAL_MS: Record<Exclude<RefreshSchedule, 'manual'>, number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+};
+
+export async function createDocumentRecord(
+  supabase: SupabaseClient,
+  record: NewDocumentRecord
+): Promise<DocumentRecord> {
+  const { data, error } = await supabase
+    .from('documents')
+    .insert({ ...record, status: 'processing' })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create document record: ${error.message}`);
+  }
+
+  return data as DocumentRecord;
+}
+
+// Ready catalog entries for documents already stored in the knowledge base;
+// IDs that have an entry already are left as they are. Returns the number of
+// entries created.
+export async function importDocumentRecords(
+  supabase: SupabaseClient,
+  records: Array<NewDocumentRecord & { id: string; chunk_count: number; created_at?: string }>
+): Promise<number> {
+  let created = 0;
+
+  for (let i = 0; i < records.length; i += IMPORT_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from('documents')
+      .upsert(
+        records.slice(i, i + IMPORT_BATCH_SIZE).map(record => ({ ...record, status: 'ready' })),
+        { onConflict: 'id', ignoreDuplicates: true }
+      )
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to import document records: ${error.message}`);
+    }
+    created += data?.length ?? 0;
+  }
+
+  return created;
+}
+
+export async function updateDocumentRecord(
+  supabase: SupabaseClient,
+  id: string,
+  updates: DocumentRecordUpdate
+): Promise<DocumentRecord> {
+  const { data, error } = await supabase
+    .from('documents')
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to update document record: ${error.message}`);
+  }
+
+  return data as DocumentRecord;
+}
+
+export async function getDocumentRecord(supabase: SupabaseClient, id: string): Promise<DocumentRecord | null> {
+  const { data, error } = await supabase
+    .from('documents')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch document record: ${error.message}`);
+  }
+
+  return data as DocumentRecord | null;
+}
+
+// Keeps the extracted text (with PDF pages and website metadata) so the
+// document can be re-chunked without fetching or uploading it again
+export async function saveDocumentContent(
+  supabase: SupabaseClient,
+  documentId: string,
+  { text, ...details }: ExtractedDocument
+): Promise<void> {
+  const { error } = await supabase
+    .from('document_contents')
+    .upsert({ document_id: documentId, text, details, updated_at: new Date().toISOString() });
+
+  if (error) {
+    throw new Error(`Failed to save document content: ${error.message}`);
+  }
+}
+
+export async function getDocumentContent(supabase: SupabaseClient, documentId: string): Promise<ExtractedDocument | null> {
+  const { data, error } = await supabase
+    .from('document_contents')
+    .select('text, details')
+    .eq('document_id', documentId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch document content: ${error.message}`);
+  }
+
+  return data ? { ...data.details, text: data.text } as ExtractedDocument : null;
+}
+
+// An already ingested document with exactly this extracted content, if any.
+// Email attachments do not count, as they are deleted along with their email.
+export async function findDocumentByContentHash(
+  supabase: SupabaseClient,
+  contentHash: string
+): Promise<DocumentRecord | null> {
+  const { data, error } = await supabase
+    .from('documents')
+    .select('*')
+    .eq('content_hash', contentHash)
+    .eq('status', 'ready')
+    .is('parent_id', null)
+    .order('created_at')
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to look up document by content hash: ${error.message}`);
+  }
+
+  return data as DocumentRecord | null;
+}
+
+// Ready website documents whose refresh schedule says they should be checked again
+export async function listWebsitesDueForRefresh(supabase: SupabaseClient, limit: number): Promise<DocumentRecord[]> {
+  const now = Date.now();
+  const dueBefore = (schedule: keyof typeof REFRESH_INTERVAL_MS) =>
+    new Date(now - REFRESH_INTERVAL_MS[schedule]).toISOString();
+
+  const { data, error } = await supabase
+    .from('documents')
+    .select('*')
+    .eq('source_type', 'website')
+    .eq('status', 'ready')
+    .neq('refresh_schedule', 'manual')
+    .or([
+      'last_checked_at.is.null',
+      `and(refresh_schedule.eq.daily,last_checked_at.lt.${dueBefore('daily')})`,
+      `and(refresh_schedule.eq.weekly,last_checked_at.lt.${dueBefore('weekly')})`,
+    ].join(','))
+    .order('last_checked_at', { ascending: true, nullsFirst: true })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to list websites due for refresh: ${error.message}`);
+  }
+
+  return (data ?? []) as DocumentRecord[];
+}
+
+// Documents attached to the given one, i.e. the attachments of an email
+export async function listChildDocuments(supabase: SupabaseClient, parentId: string): Promise<DocumentRecord[]> {
+  const { data, error } = await supabase
+    .from('documents')
+    .select('*')
+    .eq('parent_id', parentId)
+    .order('created_at');
+
+  if (error) {
+    throw new Error(`Failed to list attachments: ${error.message}`);
+  }
+
+  return (data ?? []) as DocumentRecord[];
+}
+
+export async function deleteDocumentRecord(supabase: SupabaseClient, id: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('documents')
+    .delete()
+    .eq('id', id)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to delete document record: ${error.message}`);
+  }
+
+  return (data?.length ?? 0) > 0;
+}
+
+export async function listDocumentRecords(
+  supabase: SupabaseClient,
+  { page = 1, pageSize = 20, sort = 'created_at', order = 'desc' }: ListDocumentsOptions = {}
+): Promise<{ documents: DocumentRecord[]; count: number }> {
+  const from = (page - 1) * pageSize;
+
+  const { data, error, count } = await supabase
+    .from('documents')
+    .select('*', { count: 'exact' })
+    .order(sort, { ascending: order === 'asc' })
+    .order('id')
+    .range(from, from + pageSize - 1);
+
+  if (error) {
+    throw new Error(`Failed to list documents: ${error.message}`);
+  }
+
+  return { documents: (data ?? []) as DocumentRecord[], count: count ?? 0 };
+}
+
+// Totals across the whole catalog, independent of pagination (see
+// document_catalog_stats() in supabase-schema.sql)
+export async function getCatalogStats(supabase: SupabaseClient): Promise<{
+  totalDocuments: number;
+  totalChunks: number;
+  byStatus: Partial<Record<DocumentStatus, number>>;
+}> {
+  const { data, error } = await supabase.rpc('document_catalog_stats');
+
+  if (error) {
+    throw new Error(`Failed to fetch document stats: ${error.message}`);
+  }
+
+  return {
+    totalDocuments: data?.total_documents ?? 0,
+    totalChunks: data?.total_chunks ?? 0,
+    byStatus: data?.by_status ?? {},
+  };
+}
@@ -2,6 +2,8 @@ import { embed } from 'ai';
 import { openai } from '@ai-sdk/openai';
 import { index, DocumentChunk, EmbeddingRecord } from './pinecone';
 import { marked } from 'marked';
+import { splitIntoSections } from './structured-chunking';
+import { DEFAULT_CHUNKING_SETTINGS } from '@/lib/chunking-profiles';
 
 // Import pdf-parse with proper typing
 const pdfParse = require('pdf-parse');
@@ -38,7 +40,17 @@ export async function extractTextFromMarkdown(content: string): Promise<string>
   return html.replace(/<[^>]*>/g, '');
 }
 
-export function chunkText(text: string, chunkSize: number = 1000, overlap: number = 200): string[] {
+// Chunks never span two sections (headings, statute articles); each section
+// is cut on its own
+export function chunkText(
+  text: string,
+  chunkSize: number = DEFAULT_CHUNKING_SETTINGS.chunkSize,
+  overlap: number = DEFAULT_CHUNKING_SETTINGS.chunkOverlap
+): string[] {
+  return splitIntoSections(text).flatMap(section => chunkSection(section.text, chunkSize, overlap));
+}
+
+function chunkSection(text: string, chunkSize: number, overlap: number): string[] {
   const chunks: string[] = [];
   let start = 0;
   
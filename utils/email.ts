@@ -0,0 +1,131 @@
+import { AddressObject, simpleParser } from 'mailparser';
+import MsgReader, { FieldsData } from '@kenjiuno/msgreader';
+import { htmlToStructuredText } from './web-content';
+
+// Sender, recipients and date of an email, kept in chunk metadata so answers
+// can cite the message
+export interface EmailHeaders {
+  subject: string;
+  from: string;
+  to: string[];
+  cc: string[];
+  // ISO date the message was sent, if known
+  date: string | null;
+}
+
+export interface EmailAttachment {
+  filename: string;
+  mimeType: string;
+  buffer: Buffer;
+}
+
+export interface ParsedEmail {
+  headers: EmailHeaders;
+  body: string;
+  attachments: EmailAttachment[];
+}
+
+// Outlook .msg files are OLE compound documents; everything else is read as MIME (.eml)
+const OLE_SIGNATURE = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+
+export async function parseEmail(buffer: Buffer): Promise<ParsedEmail> {
+  try {
+    return buffer.subarray(0, OLE_SIGNATURE.length).equals(OLE_SIGNATURE)
+      ? parseMsg(buffer)
+      : await parseEml(buffer);
+  } catch (error) {
+    console.error('Email parsing error:', error);
+    throw new Error(`Failed to parse email: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+// Header block and body as one text, e.g. "Betreff: …\nVon: …\n\nbody". An
+// email without sender, subject and body (e.g. an unreadable .msg) has no text.
+export function formatEmailText({ subject, from, to, cc, date }: EmailHeaders, body: string): string {
+  if (!subject && !from && !body.trim()) {
+    return '';
+  }
+
+  const lines = [
+    subject ? `Betreff: ${subject}` : null,
+    from ? `Von: ${from}` : null,
+    to.length > 0 ? `An: ${to.join(', ')}` : null,
+    cc.length > 0 ? `Cc: ${cc.join(', ')}` : null,
+    date ? `Datum: ${new Date(date).toLocaleString('de-CH', { dateStyle: 'long', timeStyle: 'short', timeZone: 'Europe/Zurich' })}` : null,
+  ];
+  return `${lines.filter(Boolean).join('\n')}\n\n${body.trim()}`;
+}
+
+async function parseEml(buffer: Buffer): Promise<ParsedEmail> {
+  const mail = await simpleParser(buffer);
+  const body = mail.text?.trim() || (mail.html ? htmlToStructuredText(mail.html) : '');
+
+  return {
+    headers: {
+      subject: mail.subject ?? '',
+      from: formatAddresses(mail.from)[0] ?? '',
+      to: formatAddresses(mail.to),
+      cc: formatAddresses(mail.cc),
+      date: mail.date && !isNaN(mail.date.getTime()) ? mail.date.toISOString() : null,
+    },
+    body,
+    // Inline images of the HTML body are not attachments anyone sent on purpose
+    attachments: mail.attachments
+      .filter(attachment => !attachment.related && attachment.filename)
+      .map(attachment => ({
+        filename: attachment.filename!,
+        mimeType: attachment.contentType,
+        buffer: attachment.content,
+      })),
+  };
+}
+
+function parseMsg(buffer: Buffer): ParsedEmail {
+  const reader = new MsgReader(buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.length) as ArrayBuffer);
+  const message = reader.getFileData();
+  if (message.error) {
+    throw new Error(message.error);
+  }
+
+  const recipients = (type: FieldsData['recipType']) => (message.recipients ?? [])
+    .filter(recipient => (recipient.recipType ?? 'to') === type)
+    .map(recipient => formatAddress(recipient.name, recipient.smtpAddress ?? recipient.email));
+  const sentAt = message.clientSubmitTime ?? message.messageDeliveryTime ?? message.creationTime;
+
+  return {
+    headers: {
+      subject: message.subject ?? '',
+      from: formatAddress(message.senderName, message.senderSmtpAddress ?? message.senderEmail),
+      to: recipients('to'),
+      cc: recipients('cc'),
+      date: sentAt && !isNaN(Date.parse(sentAt)) ? new Date(sentAt).toISOString() : null,
+    },
+    body: message.body?.trim() || (message.bodyHtml ? htmlToStructuredText(message.bodyHtml) : ''),
+    // Embedded messages and hidden (inline) attachments are left out
+    attachments: (message.attachments ?? [])
+      .filter(attachment => !attachment.innerMsgContent && !attachment.attachmentHidden)
+      .map(attachment => {
+        const { fileName, content } = reader.getAttachment(attachment);
+        return {
+          filename: fileName,
+          mimeType: attachment.attachMimeTag ?? 'application/octet-stream',
+          buffer: Buffer.from(content),
+        };
+      })
+      .filter(attachment => attachment.filename),
+  };
+}
+
+function formatAddresses(field: AddressObject | AddressObject[] | undefined): string[] {
+  return (Array.isArray(field) ? field : field ? [field] : [])
+    .flatMap(group => group.value)
+    .map(address => formatAddress(address.name, address.address));
+}
+
+// "Name <address>", or whichever of the two is known
+function formatAddress(name?: string, address?: string): string {
+  if (name && address && name !== address) {
+    return `${name} <${address}>`;
+  }
+  return name || address || '';
+}
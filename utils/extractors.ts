@@ -0,0 +1,451 @@
+import mammoth from 'mammoth';
+import { marked } from 'marked';
+import { htmlToStructuredText } from './web-content';
+import { MIN_TEXT_LAYER_CHARACTERS, recognizePDFPages } from './pdf-ocr';
+import { EmailAttachment, EmailHeaders, formatEmailText, parseEmail } from './email';
+
+const pdfParse = require('pdf-parse');
+// The pdf.js build pdf-parse uses internally; it exposes the document outline
+const PDFJS = require('pdf-parse/lib/pdf.js/v1.10.100/build/pdf.js');
+
+export type SourceType = 'pdf' | 'markdown' | 'docx' | 'html' | 'text' | 'csv' | 'email';
+
+export interface PDFPage {
+  pageNumber: number;
+  text: string;
+  // Set when the page had no text layer and its text was recognized by OCR (0 to 1)
+  ocrConfidence?: number;
+}
+
+// An entry of a PDF's bookmarks, flattened; level 1 is the top level
+export interface PDFOutlineEntry {
+  title: string;
+  level: number;
+  pageNumber: number;
+}
+
+export interface ExtractedContent {
+  text: string;
+  // Only set for paginated formats (PDF)
+  pages?: PDFPage[];
+  outline?: PDFOutlineEntry[];
+  // Only set for emails; attachments are ingested as documents of their own
+  email?: EmailHeaders;
+  attachments?: EmailAttachment[];
+}
+
+export interface Extractor {
+  sourceType: SourceType;
+  extensions: string[];
+  mimeTypes: string[];
+  extract(buffer: Buffer): Promise<ExtractedContent>;
+}
+
+// Minimal shape of the pdf.js page object pdf-parse hands to `pagerender`
+interface PDFPageData {
+  pageIndex: number;
+  getTextContent(options: { normalizeWhitespace: boolean; disableCombineTextItems: boolean }): Promise<{
+    items: PDFTextItem[];
+  }>;
+}
+
+interface PDFTextItem {
+  str: string;
+  // [scaleX, skewX, skewY, scaleY, x, y]
+  transform: number[];
+  width: number;
+}
+
+interface TextCell {
+  text: string;
+  left: number;
+  right: number;
+}
+
+// Rows of a text block with this many aligned columns are rendered as a table
+const MIN_TABLE_ROWS = 3;
+const MIN_TABLE_COLUMNS = 2;
+// "Tabelle 2: Referenzzinssatz", "Tableau 1", "Tab. 3"
+const TABLE_CAPTION = /^(?:Tab\.|Tabelle|Table|Tableau|Tabella)\s*\d+/i;
+
+export async function extractPagesFromPDF(buffer: Buffer): Promise<PDFPage[]> {
+  try {
+    console.log('Starting PDF extraction with LangChain approach, buffer size:', buffer.length);
+
+    const pages: PDFPage[] = [];
+    const data = await pdfParse(buffer, {
+      max: 0, // parse all pages
+      pagerender: async (pageData: PDFPageData) => {
+        const textContent = await pageData.getTextContent({
+          normalizeWhitespace: false,
+          disableCombineTextItems: false,
+        });
+
+        const text = renderPageText(textContent.items);
+        pages.push({ pageNumber: pageData.pageIndex + 1, text });
+        return text;
+      },
+    });
+
+    console.log(`PDF parsing successful: ${data.numpages} pages, ${data.text.length} characters`);
+    return pages;
+  } catch (error) {
+    console.error('PDF parsing error:', error);
+    throw new Error(`Failed to parse PDF file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+// Same line assembly as pdf-parse's default renderer (a new line whenever the
+// baseline changes), except that runs of lines split into the same columns
+// become Markdown tables instead of running their cells together
+function renderPageText(items: PDFTextItem[]): string {
+  const lines: PDFTextItem[][] = [];
+  let lastY: number | undefined;
+  for (const item of items) {
+    if (lines.length > 0 && (lastY === item.transform[5] || !lastY)) {
+      lines[lines.length - 1].push(item);
+    } else {
+      lines.push([item]);
+    }
+    lastY = item.transform[5];
+  }
+
+  const cells = lines.map(splitIntoCells);
+  const output: string[] = [];
+
+  for (let i = 0; i < lines.length;) {
+    const end = findTableEnd(cells, i);
+
+    if (end - i < MIN_TABLE_ROWS) {
+      output.push(lines[i].map(item => item.str).join(''));
+      i++;
+      continue;
+    }
+
+    // A caption right above the table is kept with it
+    const caption = output.length > 0 && TABLE_CAPTION.test(output[output.length - 1].trim())
+      ? output.pop()!.trim()
+      : null;
+    const row = (values: string[]) => `| ${values.map(value => value.replace(/\|/g, '\\|')).join(' | ')} |`;
+
+    output.push(
+      '',
+      ...(caption ? [caption, ''] : []),
+      row(cells[i].map(cell => cell.text)),
+      row(cells[i].map(() => '---')),
+      ...cells.slice(i + 1, end).map(values => row(values.map(cell => cell.text))),
+      ''
+    );
+    i = end;
+  }
+
+  return output.join('\n');
+}
+
+// Items further apart than about one character width belong to different columns
+function splitIntoCells(line: PDFTextItem[]): TextCell[] {
+  const cells: TextCell[] = [];
+
+  for (const item of line) {
+    const fontSize = Math.abs(item.transform[3]) || Math.abs(item.transform[0]) || 10;
+    const x = item.transform[4];
+    const previous = cells[cells.length - 1];
+
+    if (previous && x - previous.right <= fontSize) {
+      previous.text += item.str;
+      previous.right = Math.max(previous.right, x + item.width);
+    } else {
+      cells.push({ text: item.str, left: x, right: x + item.width });
+    }
+  }
+
+  return cells
+    .map(cell => ({ ...cell, text: cell.text.replace(/\s+/g, ' ').trim() }))
+    .filter(cell => cell.text);
+}
+
+// End (exclusive) of the run of lines starting at `start` whose columns line
+// up: same number of cells and a blank gutter between neighbouring columns in
+// every line, which justified running text does not have
+function findTableEnd(cells: TextCell[][], start: number): number {
+  const columns = cells[start].length;
+  if (columns < MIN_TABLE_COLUMNS) {
+    return start;
+  }
+
+  const rightEdges = cells[start].map(cell => cell.right);
+  const leftEdges = cells[start].map(cell => cell.left);
+  let end = start + 1;
+
+  for (; end < cells.length && cells[end].length === columns; end++) {
+    const right = rightEdges.map((edge, j) => Math.max(edge, cells[end][j].right));
+    const left = leftEdges.map((edge, j) => Math.min(edge, cells[end][j].left));
+    if (right.slice(0, -1).some((edge, j) => edge >= left[j + 1])) {
+      break;
+    }
+    rightEdges.splice(0, columns, ...right);
+    leftEdges.splice(0, columns, ...left);
+  }
+
+  return end;
+}
+
+// Minimal shape of the pdf.js outline API
+interface PDFOutlineNode {
+  title: string;
+  dest: string | unknown[] | null;
+  items: PDFOutlineNode[];
+}
+
+interface PDFDocumentProxy {
+  getOutline(): Promise<PDFOutlineNode[] | null>;
+  getDestination(name: string): Promise<unknown[] | null>;
+  getPageIndex(ref: unknown): Promise<number>;
+  destroy(): void;
+}
+
+// Replaces the pages without a usable text layer by their OCR text. Failing
+// OCR leaves those pages empty rather than failing the whole document.
+async function recognizeScannedPages(buffer: Buffer, pages: PDFPage[]): Promise<PDFPage[]> {
+  const scanned = pages
+    .filter(page => page.text.trim().length < MIN_TEXT_LAYER_CHARACTERS)
+    .map(page => page.pageNumber);
+
+  if (scanned.length === 0) {
+    return pages;
+  }
+
+  console.log(`Running OCR on ${scanned.length} of ${pages.length} PDF pages without a text layer`);
+  const recognized = await recognizePDFPages(buffer, scanned).catch(error => {
+    console.warn('OCR failed:', error instanceof Error ? error.message : error);
+    return [];
+  });
+
+  return pages.map(page => {
+    const ocr = recognized.find(result => result.pageNumber === page.pageNumber);
+    return ocr && ocr.text.length > page.text.trim().length
+      ? { pageNumber: page.pageNumber, text: ocr.text, ocrConfidence: ocr.confidence }
+      : page;
+  });
+}
+
+// Bookmarks of the PDF with the page each one points to. Entries without a
+// resolvable page (e.g. links to URLs) are left out.
+export async function extractPDFOutline(buffer: Buffer): Promise<PDFOutlineEntry[]> {
+  PDFJS.disableWorker = true;
+  const doc: PDFDocumentProxy = await PDFJS.getDocument(new Uint8Array(buffer));
+
+  try {
+    const entries: PDFOutlineEntry[] = [];
+
+    const visit = async (nodes: PDFOutlineNode[], level: number) => {
+      for (const node of nodes) {
+        const dest = typeof node.dest === 'string' ? await doc.getDestination(node.dest) : node.dest;
+        const title = node.title.replace(/\s+/g, ' ').trim();
+
+        if (Array.isArray(dest) && dest[0] && title) {
+          try {
+            const ref = dest[0];
+            const pageIndex = typeof ref === 'number' ? ref : await doc.getPageIndex(ref);
+            entries.push({ title, level, pageNumber: pageIndex + 1 });
+          } catch {
+            // Destination points outside the document
+          }
+        }
+
+        await visit(node.items ?? [], level + 1);
+      }
+    };
+
+    await visit((await doc.getOutline()) ?? [], 1);
+    return entries;
+  } finally {
+    doc.destroy();
+  }
+}
+
+// Markdown and HTML become structured text: '#' headings, '-'/'1.' list items
+// and Markdown tables, so chunking can follow the document's sections
+export async function extractTextFromMarkdown(content: string): Promise<string> {
+  return htmlToStructuredText(await marked(content));
+}
+
+export function extractTextFromHTML(html: string): string {
+  return htmlToStructuredText(html);
+}
+
+export async function extractTextFromDocx(buffer: Buffer): Promise<string> {
+  try {
+    // Go through HTML so headings, lists and tables keep their line structure
+    const { value: html, messages } = await mammoth.convertToHtml({ buffer });
+    messages
+      .filter(message => message.type === 'error')
+      .forEach(message => console.warn('DOCX conversion warning:', message.message));
+
+    return extractTextFromHTML(html);
+  } catch (error) {
+    console.error('DOCX parsing error:', error);
+    throw new Error(`Failed to parse DOCX file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+export function extractTextFromCSV(content: string): string {
+  const rows = parseCSV(content.replace(/^\uFEFF/, ''));
+  if (rows.length === 0) {
+    return '';
+  }
+
+  const [header, ...records] = rows;
+  const columns = header.map((name, i) => name.trim() || `Column ${i + 1}`);
+
+  // One readable record per row, e.g. "Gebühr: Mahnung; Betrag: 20.00"
+  return records
+    .map((record, rowIndex) => {
+      const fields = columns
+        .map((column, i) => (record[i]?.trim() ? `${column}: ${record[i].trim()}` : null))
+        .filter(Boolean);
+      return fields.length > 0 ? `Row ${rowIndex + 1}: ${fields.join('; ')}` : null;
+    })
+    .filter(Boolean)
+    .join('\n');
+}
+
+// RFC 4180 style parsing; the delimiter is guessed from the header line since
+// Swiss Excel exports use ';' rather than ','.
+function parseCSV(content: string): string[][] {
+  const headerLine = content.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = [';', ',', '\t']
+    .map(candidate => ({ candidate, count: headerLine.split(candidate).length }))
+    .sort((a, b) => b.count - a.count)[0].candidate;
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(value => value.trim()));
+}
+
+const extractors = new Map<SourceType, Extractor>();
+
+export function registerExtractor(extractor: Extractor): void {
+  extractors.set(extractor.sourceType, extractor);
+}
+
+export function getExtractor(sourceType: SourceType): Extractor {
+  const extractor = extractors.get(sourceType);
+  if (!extractor) {
+    throw new Error(`No extractor registered for source type "${sourceType}"`);
+  }
+  return extractor;
+}
+
+// The file extension wins over the MIME type, since browsers report many
+// office and text formats as an empty string or application/octet-stream.
+export function findExtractor(filename: string, mimeType?: string): Extractor | null {
+  const extension = filename.toLowerCase().split('.').pop() ?? '';
+  const registered = Array.from(extractors.values());
+
+  return (
+    registered.find(extractor => extractor.extensions.includes(extension)) ??
+    registered.find(extractor => !!mimeType && extractor.mimeTypes.includes(mimeType.split(';')[0].trim())) ??
+    null
+  );
+}
+
+export function getSupportedExtensions(): string[] {
+  return Array.from(extractors.values()).flatMap(extractor => extractor.extensions);
+}
+
+registerExtractor({
+  sourceType: 'pdf',
+  extensions: ['pdf'],
+  mimeTypes: ['application/pdf'],
+  extract: async buffer => {
+    const pages = await recognizeScannedPages(buffer, await extractPagesFromPDF(buffer));
+    // The outline only refines chunking, so a broken one is not fatal
+    const outline = await extractPDFOutline(buffer).catch(error => {
+      console.warn('Could not read PDF outline:', error instanceof Error ? error.message : error);
+      return [];
+    });
+    return { text: pages.map(page => page.text).join('\n\n'), pages, outline };
+  },
+});
+
+registerExtractor({
+  sourceType: 'markdown',
+  extensions: ['md', 'markdown'],
+  mimeTypes: ['text/markdown', 'text/x-markdown'],
+  extract: async buffer => ({ text: await extractTextFromMarkdown(buffer.toString('utf-8')) }),
+});
+
+registerExtractor({
+  sourceType: 'docx',
+  extensions: ['docx'],
+  mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+  extract: async buffer => ({ text: await extractTextFromDocx(buffer) }),
+});
+
+registerExtractor({
+  sourceType: 'html',
+  extensions: ['html', 'htm'],
+  mimeTypes: ['text/html', 'application/xhtml+xml'],
+  extract: async buffer => ({ text: extractTextFromHTML(buffer.toString('utf-8')) }),
+});
+
+registerExtractor({
+  sourceType: 'text',
+  extensions: ['txt'],
+  mimeTypes: ['text/plain'],
+  extract: async buffer => ({ text: buffer.toString('utf-8').replace(/^\uFEFF/, '') }),
+});
+
+registerExtractor({
+  sourceType: 'csv',
+  extensions: ['csv'],
+  mimeTypes: ['text/csv', 'application/csv'],
+  extract: async buffer => ({ text: extractTextFromCSV(buffer.toString('utf-8')) }),
+});
+
+registerExtractor({
+  sourceType: 'email',
+  extensions: ['eml', 'msg'],
+  mimeTypes: ['message/rfc822', 'application/vnd.ms-outlook'],
+  extract: async buffer => {
+    const { headers, body, attachments } = await parseEmail(buffer);
+    return { text: formatEmailText(headers, body), email: headers, attachments };
+  },
+});
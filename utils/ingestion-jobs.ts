@@ -0,0 +1,675 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ArchiveFileResult, ChunkingProfile, CrawlPageResult, DocumentRecord, IngestionJob, IngestionJobKind, IngestionJobResult, RefreshSchedule } from '@/lib/database.types';
+import { AttachmentParent, DocumentLabels, documentProcessor, ExtractedDocument, FetchedPage, ProcessedDocumentLangChain, ProgressCallback } from './langchain-processing';
+import { findExtractor, SourceType } from './extractors';
+import {
+  createDocumentRecord,
+  deleteDocumentRecord,
+  findDocumentByContentHash,
+  getDocumentContent,
+  getDocumentRecord,
+  listChildDocuments,
+  saveDocumentContent,
+  updateDocumentRecord,
+} from './document-catalog';
+import { CrawlOptions } from '@/lib/crawl-options';
+import { toChunkingSettings } from '@/lib/chunking-profiles';
+import { crawlWebsite } from './web-crawler';
+import { ArchiveFile } from './archive';
+import { EmailAttachment } from './email';
+import { indexChunks } from './keyword-index';
+
+// What the worker needs to process a job. File contents only live in memory,
+// so a job runs in the same server process that accepted the upload. A null
+// chunking profile means the default chunking settings.
+export type IngestionJobPayload =
+  | {
+      kind: 'file';
+      documentId: string;
+      filename: string;
+      sourceType: SourceType;
+      buffer: Buffer;
+      chunkingProfile: ChunkingProfile | null;
+    }
+  | { kind: 'url'; documentId: string; url: string; page?: FetchedPage; chunkingProfile: ChunkingProfile | null }
+  | {
+      kind: 'replace';
+      documentId: string;
+      filename: string;
+      sourceType: SourceType;
+      mimeType: string | null;
+      buffer: Buffer;
+      chunkingProfile: ChunkingProfile | null;
+    }
+  // Each crawled page gets its own catalog entry, created as the crawl finds it
+  | {
+      kind: 'crawl';
+      url: string;
+      options: CrawlOptions;
+      refreshSchedule: RefreshSchedule;
+      collection: string | null;
+      tags: string[];
+      createdBy: string;
+      chunkingProfile: ChunkingProfile | null;
+    }
+  // Splits the stored text of a document again with another profile
+  | { kind: 'rechunk'; documentId: string; chunkingProfile: ChunkingProfile | null }
+  // Each supported file of a zip archive or uploaded folder becomes its own document
+  | {
+      kind: 'archive';
+      collection: string;
+      tags: string[];
+      files: ArchiveFile[];
+      createdBy: string;
+      chunkingProfile: ChunkingProfile | null;
+    };
+
+type DocumentPayload = Extract<IngestionJobPayload, { kind: 'file' | 'url' | 'replace' }>;
+
+// Jobs that have not reported progress for this long are considered dead
+// (e.g. the server instance was recycled mid-job)
+const STALE_JOB_MS = 10 * 60 * 1000;
+
+export async function createIngestionJob(
+  supabase: SupabaseClient,
+  job: { kind: IngestionJobKind; documentId: string | null; filename: string; createdBy: string }
+): Promise<IngestionJob> {
+  const { data, error } = await supabase
+    .from('ingestion_jobs')
+    .insert({
+      kind: job.kind,
+      document_id: job.documentId,
+      filename: job.filename,
+      created_by: job.createdBy,
+      status: 'queued',
+      stage: 'queued',
+      progress: 0,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create ingestion job: ${error.message}`);
+  }
+
+  return data as IngestionJob;
+}
+
+export async function updateIngestionJob(
+  supabase: SupabaseClient,
+  id: string,
+  updates: Partial<Omit<IngestionJob, 'id' | 'created_at'>>
+): Promise<void> {
+  const { error } = await supabase
+    .from('ingestion_jobs')
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq('id', id);
+
+  if (error) {
+    // Progress updates are best effort; the job itself carries on
+    console.error(`Failed to update ingestion job ${id}:`, error.message);
+  }
+}
+
+export async function getIngestionJob(supabase: SupabaseClient, id: string): Promise<IngestionJob | null> {
+  const { data, error } = await supabase
+    .from('ingestion_jobs')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch ingestion job: ${error.message}`);
+  }
+
+  const job = data as IngestionJob | null;
+
+  if (job && (job.status === 'queued' || job.status === 'running') &&
+      Date.now() - new Date(job.updated_at).getTime() > STALE_JOB_MS) {
+    const failed = {
+      status: 'failed' as const,
+      error: 'Job stopped reporting progress',
+      completed_at: new Date().toISOString(),
+    };
+    await updateIngestionJob(supabase, job.id, failed);
+    return { ...job, ...failed };
+  }
+
+  return job;
+}
+
+// Runs a job through extract, split, embed and upsert, recording progress on
+// the job row and the outcome on the document's catalog entry.
+export async function runIngestionJob(
+  supabase: SupabaseClient,
+  jobId: string,
+  payload: IngestionJobPayload
+): Promise<void> {
+  let retries = 0;
+  const onProgress: ProgressCallback = async (stage, progress, details) => {
+    await updateIngestionJob(supabase, jobId, {
+      stage,
+      progress,
+      message: details?.message ?? null,
+      ...(details?.retry ? { retries: ++retries } : {}),
+    });
+  };
+
+  try {
+    await updateIngestionJob(supabase, jobId, {
+      status: 'running',
+      stage: 'extract',
+      progress: 0,
+      message: payload.kind === 'crawl'
+        ? `Crawling ${payload.url}`
+        : payload.kind === 'archive'
+        ? `Importing ${payload.files.length} files`
+        : 'Extracting text',
+    });
+
+    const { result, message } = payload.kind === 'crawl'
+      ? await runCrawl(supabase, jobId, payload)
+      : payload.kind === 'archive'
+      ? await runArchiveImport(supabase, jobId, payload)
+      : payload.kind === 'rechunk'
+      ? await rechunkDocument(supabase, payload, onProgress)
+      : await ingestDocument(supabase, jobId, payload, onProgress);
+
+    await completeJob(supabase, jobId, result, message);
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`Ingestion job ${jobId} failed:`, error);
+
+    await updateIngestionJob(supabase, jobId, {
+      status: 'failed',
+      error: message,
+      completed_at: new Date().toISOString(),
+    });
+  }
+}
+
+// Ingests a single document and records the outcome in its catalog entry
+async function ingestDocument(
+  supabase: SupabaseClient,
+  jobId: string,
+  payload: DocumentPayload,
+  onProgress?: ProgressCallback
+): Promise<{ result: IngestionJobResult; message: string }> {
+  try {
+    const extracted: ExtractedDocument = payload.kind === 'url'
+      ? await documentProcessor.extractWebsite(payload.url, payload.page)
+      : await documentProcessor.extractDocument(payload.filename, payload.buffer, payload.sourceType);
+
+    // Collection, tags and the email an attachment belongs to come from the
+    // catalog entry, so a replacement or refresh keeps them
+    const record = await getDocumentRecord(supabase, payload.documentId);
+
+    // Skip new documents whose content is already in the knowledge base.
+    // Attachments are always stored, each with its own email, so deleting
+    // one email does not take the other's attachment along.
+    if (payload.kind !== 'replace' && !record?.parent_id) {
+      const duplicate = await findDocumentByContentHash(supabase, extracted.contentHash);
+
+      if (duplicate) {
+        console.log(`Skipping job ${jobId}: identical to document ${duplicate.id} (${duplicate.filename})`);
+        await deleteDocumentRecord(supabase, payload.documentId);
+        return {
+          result: {
+            chunks: 0,
+            skipped: true,
+            duplicateOf: { id: duplicate.id, filename: duplicate.filename },
+          },
+          message: `Skipped: identical content is already in the knowledge base as ${duplicate.filename}`,
+        };
+      }
+    }
+
+    // Attachments become documents of their own and are not stored with the email
+    const { attachments = [], ...content } = extracted;
+
+    const chunking = toChunkingSettings(payload.chunkingProfile);
+    const labels = record ? documentLabels(record) : undefined;
+    const attachmentOf = record?.parent_id ? await describeParent(supabase, record.parent_id) : undefined;
+    let result: ProcessedDocumentLangChain;
+
+    switch (payload.kind) {
+      case 'url':
+        result = await documentProcessor.processWebsite(payload.url, {
+          documentId: payload.documentId,
+          extracted,
+          chunking,
+          labels,
+          onProgress,
+        });
+        await updateDocumentRecord(supabase, payload.documentId, {
+          status: 'ready',
+          filename: result.filename,
+          chunk_count: result.totalChunks,
+          content_hash: result.contentHash,
+          last_checked_at: new Date().toISOString(),
+          last_changed_at: new Date().toISOString(),
+        });
+        break;
+
+      case 'file':
+        result = await documentProcessor.processDocument(payload.filename, payload.buffer, payload.sourceType, {
+          documentId: payload.documentId,
+          extracted: content,
+          chunking,
+          labels,
+          attachmentOf,
+          onProgress,
+        });
+        await updateDocumentRecord(supabase, payload.documentId, {
+          status: 'ready',
+          chunk_count: result.totalChunks,
+          content_hash: result.contentHash,
+        });
+        break;
+
+      case 'replace':
+        result = await documentProcessor.processDocument(payload.filename, payload.buffer, payload.sourceType, {
+          documentId: payload.documentId,
+          extracted: content,
+          chunking,
+          replace: true,
+          labels,
+          attachmentOf,
+          onProgress,
+        });
+        // A failed replacement leaves the previous version and its catalog entry as they were
+        await updateDocumentRecord(supabase, payload.documentId, {
+          filename: payload.filename,
+          source_type: payload.sourceType,
+          mime_type: payload.mimeType,
+          byte_size: payload.buffer.length,
+          chunk_count: result.totalChunks,
+          content_hash: result.contentHash,
+          chunking_profile_id: payload.chunkingProfile?.id ?? null,
+          status: 'ready',
+          error: null,
+          // A file replacing a website is no longer refreshed from the site
+          ...(record?.source_type === 'website' && {
+            url: null,
+            refresh_schedule: 'manual' as const,
+            last_checked_at: null,
+            last_changed_at: null,
+          }),
+        });
+        break;
+    }
+
+    // Stored only once the chunks are, so a failed replacement keeps the text
+    // that matches the previous chunks. Without it the document can still be
+    // searched, only not re-chunked.
+    await saveDocumentContent(supabase, payload.documentId, content)
+      .catch(error => console.error(`Failed to store text of document ${payload.documentId}:`, error));
+
+    // Without keyword index entries the document is still found by vector search
+    await indexChunks(supabase, payload.documentId, result.documents)
+      .catch(error => console.error(`Failed to index keywords of document ${payload.documentId}:`, error));
+
+    // A new version of an email brings its own attachments
+    if (payload.kind === 'replace') {
+      await deleteAttachments(supabase, payload.documentId);
+    }
+
+    const attachmentReport = attachments.length > 0
+      ? await ingestAttachments(supabase, jobId, payload.chunkingProfile, record, { documentId: payload.documentId, filename: result.filename, email: content.email }, attachments)
+      : undefined;
+
+    const message = result.unchanged
+      ? 'Content is unchanged, nothing was re-embedded'
+      : `Successfully processed ${result.totalChunks} chunks`;
+
+    return {
+      result: {
+        chunks: result.totalChunks,
+        unchanged: result.unchanged,
+        ...(attachmentReport && { attachments: attachmentReport }),
+      },
+      message: attachmentReport
+        ? `${message}; ${attachmentReport.filter(file => file.status === 'ingested').length} of ${attachmentReport.length} attachments ingested`
+        : message,
+    };
+
+  } catch (error) {
+    if (payload.kind !== 'replace') {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      await updateDocumentRecord(supabase, payload.documentId, { status: 'failed', error: message })
+        .catch(catalogError => console.error('Failed to mark document as failed:', catalogError));
+    }
+    throw error;
+  }
+}
+
+// Crawls a site and ingests every page as its own document. A failing page is
+// recorded in the report and does not stop the crawl.
+async function runCrawl(
+  supabase: SupabaseClient,
+  jobId: string,
+  payload: Extract<IngestionJobPayload, { kind: 'crawl' }>
+): Promise<{ result: IngestionJobResult; message: string }> {
+  const pages: CrawlPageResult[] = [];
+
+  await crawlWebsite(payload.url, payload.options, async (page, index) => {
+    await updateIngestionJob(supabase, jobId, {
+      // Without knowing the site's size, progress is measured against the page limit
+      progress: Math.min(Math.round((index / payload.options.maxPages) * 100), 99),
+      message: `Ingesting page ${index + 1}: ${page.url}`,
+    });
+
+    let documentId: string | undefined;
+    try {
+      const record = await createDocumentRecord(supabase, {
+        filename: page.url,
+        source_type: 'website',
+        url: page.url,
+        mime_type: 'text/html',
+        byte_size: Buffer.byteLength(page.html),
+        uploaded_by: payload.createdBy,
+        refresh_schedule: payload.refreshSchedule,
+        chunking_profile_id: payload.chunkingProfile?.id,
+        collection: payload.collection ?? undefined,
+        tags: payload.tags,
+      });
+      documentId = record.id;
+
+      const { result } = await ingestDocument(supabase, jobId, {
+        kind: 'url',
+        documentId: record.id,
+        url: page.url,
+        page: { html: page.html, lastModified: page.lastModified },
+        chunkingProfile: payload.chunkingProfile,
+      });
+
+      pages.push({
+        url: page.url,
+        depth: page.depth,
+        status: result.skipped ? 'skipped' : 'ingested',
+        documentId: result.skipped ? undefined : record.id,
+        chunks: result.chunks,
+      });
+    } catch (error) {
+      console.error(`Crawl job ${jobId}: failed to ingest ${page.url}:`, error);
+      pages.push({
+        url: page.url,
+        depth: page.depth,
+        status: 'failed',
+        documentId,
+        chunks: 0,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  if (pages.length === 0) {
+    throw new Error(`No pages could be crawled from ${payload.url}`);
+  }
+
+  const count = (status: CrawlPageResult['status']) => pages.filter(page => page.status === status).length;
+
+  return {
+    result: {
+      chunks: pages.reduce((sum, page) => sum + page.chunks, 0),
+      pages,
+    },
+    message: `Crawled ${pages.length} pages: ${count('ingested')} ingested, ${count('skipped')} skipped, ${count('failed')} failed`,
+  };
+}
+
+// Ingests every supported file of an archive or folder as its own document,
+// keeping the folder structure in `path`. A failing file is recorded in the
+// report and does not stop the import.
+async function runArchiveImport(
+  supabase: SupabaseClient,
+  jobId: string,
+  payload: Extract<IngestionJobPayload, { kind: 'archive' }>
+): Promise<{ result: IngestionJobResult; message: string }> {
+  const files: ArchiveFileResult[] = [];
+
+  for (const [index, file] of payload.files.entries()) {
+    await updateIngestionJob(supabase, jobId, {
+      progress: Math.min(Math.round((index / payload.files.length) * 100), 99),
+      message: `Ingesting file ${index + 1} of ${payload.files.length}: ${file.path}`,
+    });
+
+    files.push(await ingestContainedFile(supabase, jobId, file, {
+      createdBy: payload.createdBy,
+      chunkingProfile: payload.chunkingProfile,
+      collection: payload.collection,
+      tags: payload.tags,
+      keepPath: true,
+    }));
+  }
+
+  const count = (status: ArchiveFileResult['status']) => files.filter(file => file.status === status).length;
+
+  return {
+    result: {
+      chunks: files.reduce((sum, file) => sum + file.chunks, 0),
+      files,
+    },
+    message: `Imported ${files.length} files from ${payload.collection}: ${count('ingested')} ingested, ` +
+      `${count('skipped')} skipped, ${count('unsupported')} unsupported, ${count('failed')} failed`,
+  };
+}
+
+// Ingests the attachments of an email as documents linked to it. Like the
+// files of an archive, a failing attachment is reported and skipped.
+async function ingestAttachments(
+  supabase: SupabaseClient,
+  jobId: string,
+  chunkingProfile: ChunkingProfile | null,
+  record: DocumentRecord | null,
+  parent: AttachmentParent,
+  attachments: EmailAttachment[]
+): Promise<ArchiveFileResult[]> {
+  const results: ArchiveFileResult[] = [];
+
+  for (const [index, attachment] of attachments.entries()) {
+    await updateIngestionJob(supabase, jobId, {
+      message: `Ingesting attachment ${index + 1} of ${attachments.length}: ${attachment.filename}`,
+    });
+
+    results.push(await ingestContainedFile(supabase, jobId, {
+      path: attachment.filename,
+      buffer: attachment.buffer,
+      mimeType: attachment.mimeType,
+    }, {
+      createdBy: record?.uploaded_by ?? null,
+      chunkingProfile,
+      // Attachments are filed and tagged like the email
+      collection: record?.collection ?? undefined,
+      tags: record?.tags,
+      parentId: parent.documentId,
+    }));
+  }
+
+  return results;
+}
+
+// Creates the catalog entry for a file of an archive or an email attachment
+// and ingests it; failures end up in the returned report instead of being thrown
+async function ingestContainedFile(
+  supabase: SupabaseClient,
+  jobId: string,
+  file: { path: string; buffer: Buffer; mimeType?: string },
+  entry: {
+    createdBy: string | null;
+    chunkingProfile: ChunkingProfile | null;
+    collection?: string;
+    tags?: string[];
+    // Record the file's path inside the archive
+    keepPath?: boolean;
+    parentId?: string;
+  }
+): Promise<ArchiveFileResult> {
+  const filename = file.path.split('/').pop()!;
+  const extractor = findExtractor(filename, file.mimeType);
+  if (!extractor) {
+    return { path: file.path, status: 'unsupported', chunks: 0 };
+  }
+
+  let documentId: string | undefined;
+  try {
+    const record = await createDocumentRecord(supabase, {
+      filename,
+      source_type: extractor.sourceType,
+      mime_type: file.mimeType ?? extractor.mimeTypes[0],
+      byte_size: file.buffer.length,
+      uploaded_by: entry.createdBy ?? undefined,
+      chunking_profile_id: entry.chunkingProfile?.id,
+      collection: entry.collection,
+      path: entry.keepPath ? file.path : undefined,
+      tags: entry.tags,
+      parent_id: entry.parentId,
+    });
+    documentId = record.id;
+
+    const { result } = await ingestDocument(supabase, jobId, {
+      kind: 'file',
+      documentId: record.id,
+      filename,
+      sourceType: extractor.sourceType,
+      buffer: file.buffer,
+      chunkingProfile: entry.chunkingProfile,
+    });
+
+    return {
+      path: file.path,
+      status: result.skipped ? 'skipped' : 'ingested',
+      documentId: result.skipped ? undefined : record.id,
+      chunks: result.chunks,
+      ...(result.duplicateOf && { duplicateOf: result.duplicateOf }),
+    };
+  } catch (error) {
+    console.error(`Job ${jobId}: failed to ingest ${file.path}:`, error);
+    return {
+      path: file.path,
+      status: 'failed',
+      documentId,
+      chunks: 0,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+function documentLabels(record: DocumentRecord): DocumentLabels {
+  return { collection: record.collection, path: record.path, tags: record.tags };
+}
+
+// The email an attachment belongs to, with the headers its chunks are cited with
+async function describeParent(supabase: SupabaseClient, parentId: string): Promise<AttachmentParent | undefined> {
+  const parent = await getDocumentRecord(supabase, parentId);
+  if (!parent) {
+    return undefined;
+  }
+  const content = await getDocumentContent(supabase, parentId);
+  return { documentId: parent.id, filename: parent.filename, email: content?.email };
+}
+
+// Removes the attachments of an email from the knowledge base and the catalog
+export async function deleteAttachments(supabase: SupabaseClient, parentId: string): Promise<number> {
+  const children = await listChildDocuments(supabase, parentId);
+  let deletedChunks = 0;
+
+  for (const child of children) {
+    deletedChunks += await documentProcessor.deleteDocument(child.id);
+    await deleteDocumentRecord(supabase, child.id);
+  }
+
+  return deletedChunks;
+}
+
+// Gives the attachments of an email new labels, in the knowledge base and the catalog
+export async function updateAttachmentLabels(
+  supabase: SupabaseClient,
+  parentId: string,
+  labels: Pick<DocumentLabels, 'collection' | 'tags'>
+): Promise<number> {
+  const children = await listChildDocuments(supabase, parentId);
+  let updatedChunks = 0;
+
+  for (const child of children) {
+    updatedChunks += await documentProcessor.updateDocumentLabels(child.id, labels);
+    await updateDocumentRecord(supabase, child.id, labels);
+  }
+
+  return updatedChunks;
+}
+
+// Re-chunks a document from its stored text and replaces its chunks. Websites
+// ingested before their text was stored are fetched again.
+async function rechunkDocument(
+  supabase: SupabaseClient,
+  payload: Extract<IngestionJobPayload, { kind: 'rechunk' }>,
+  onProgress: ProgressCallback
+): Promise<{ result: IngestionJobResult; message: string }> {
+  const record = await getDocumentRecord(supabase, payload.documentId);
+  if (!record) {
+    throw new Error(`Document ${payload.documentId} not found`);
+  }
+
+  let extracted = await getDocumentContent(supabase, record.id);
+  const refetched = !extracted;
+  if (!extracted) {
+    if (record.source_type !== 'website' || !record.url) {
+      throw new Error('The text of this document was not stored; replace it with the original file to re-chunk it');
+    }
+    extracted = await documentProcessor.extractWebsite(record.url);
+  }
+
+  const options = {
+    documentId: record.id,
+    extracted,
+    chunking: toChunkingSettings(payload.chunkingProfile),
+    replace: true,
+    labels: documentLabels(record),
+    attachmentOf: record.parent_id ? await describeParent(supabase, record.parent_id) : undefined,
+    onProgress,
+  };
+  const result = record.source_type === 'website' && record.url
+    ? await documentProcessor.processWebsite(record.url, options)
+    : await documentProcessor.processDocument(record.filename, extracted.text, record.source_type as SourceType, options);
+
+  if (refetched) {
+    await saveDocumentContent(supabase, record.id, extracted)
+      .catch(error => console.error(`Failed to store text of document ${record.id}:`, error));
+  }
+  await indexChunks(supabase, record.id, result.documents)
+    .catch(error => console.error(`Failed to index keywords of document ${record.id}:`, error));
+
+  // A failed re-chunk leaves the previous chunks and catalog entry as they were
+  await updateDocumentRecord(supabase, record.id, {
+    chunk_count: result.totalChunks,
+    content_hash: result.contentHash,
+    chunking_profile_id: payload.chunkingProfile?.id ?? null,
+    error: null,
+  });
+
+  const profileName = payload.chunkingProfile?.name ?? 'the default settings';
+  return {
+    result: { chunks: result.totalChunks, unchanged: result.unchanged },
+    message: result.unchanged
+      ? `Chunks are unchanged with ${profileName}, nothing was re-embedded`
+      : `Re-chunked with ${profileName}: ${result.totalChunks} chunks`,
+  };
+}
+
+async function completeJob(
+  supabase: SupabaseClient,
+  jobId: string,
+  result: IngestionJobResult,
+  message: string
+): Promise<void> {
+  await updateIngestionJob(supabase, jobId, {
+    status: 'completed',
+    stage: 'done',
+    progress: 100,
+    message,
+    result,
+    completed_at: new Date().toISOString(),
+  });
+}
@@ -0,0 +1,119 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Document } from 'langchain/document';
+import type { SearchFilters } from '@/lib/search-filters';
+import { isStopword } from './language-detection';
+import { withHeadingPath } from './structured-chunking';
+
+// A chunk found by keyword search, identified by its Pinecone vector ID
+export interface KeywordMatch {
+  id: string;
+  // BM25 score of the chunk for the query
+  score: number;
+}
+
+const INSERT_BATCH_SIZE = 500;
+
+// Words and numbers, lowercased. References like "4A_32/2018", "257e" or
+// "01.03.2025" are kept whole and also split into their parts and leading
+// parts ("4a_32"), so searching for a part finds them too. Stopwords are left out.
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+
+  for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+(?:[._/-][\p{L}\p{N}]+)*/gu) ?? []) {
+    const parts = word.split(/[._/-]/);
+    // Everything before the second, third, ... separator; before the first is parts[0]
+    const prefixes = [...word.matchAll(/[._/-]/g)].slice(1).map(separator => word.slice(0, separator.index));
+    const candidates = parts.length > 1 ? [word, ...prefixes, ...parts] : [word];
+    terms.push(...candidates.filter(term => (term.length > 1 || /\d/.test(term)) && !isStopword(term)));
+  }
+
+  return terms;
+}
+
+// Replaces the keyword index entries of a document with its current chunks.
+// The chunks must carry their vector IDs (set when they are stored).
+export async function indexChunks(supabase: SupabaseClient, documentId: string, chunks: Document[]): Promise<void> {
+  const rows = chunks.map(chunk => {
+    const terms = tokenize(withHeadingPath(chunk.pageContent, chunk.metadata.headingPath));
+    return {
+      id: chunk.id,
+      document_id: documentId,
+      terms,
+      term_count: terms.length,
+      language: chunk.metadata.language ?? null,
+      document_date: chunk.metadata.documentDate ? new Date(chunk.metadata.documentDate * 1000).toISOString() : null,
+    };
+  });
+
+  if (rows.some(row => !row.id)) {
+    throw new Error('Failed to index chunks: chunks have no vector IDs');
+  }
+
+  const { error: deleteError } = await supabase
+    .from('document_chunks')
+    .delete()
+    .eq('document_id', documentId);
+
+  if (deleteError) {
+    throw new Error(`Failed to index chunks: ${deleteError.message}`);
+  }
+
+  for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+    const { error } = await supabase
+      .from('document_chunks')
+      .insert(rows.slice(i, i + INSERT_BATCH_SIZE));
+
+    if (error) {
+      throw new Error(`Failed to index chunks: ${error.message}`);
+    }
+  }
+
+  console.log(`Indexed keywords of ${rows.length} chunks of document ${documentId}`);
+}
+
+// Whether any chunk of the document is in the keyword index
+export async function hasKeywordIndex(supabase: SupabaseClient, documentId: string): Promise<boolean> {
+  const { count, error } = await supabase
+    .from('document_chunks')
+    .select('id', { count: 'exact', head: true })
+    .eq('document_id', documentId);
+
+  if (error) {
+    throw new Error(`Failed to check keyword index: ${error.message}`);
+  }
+
+  return (count ?? 0) > 0;
+}
+
+// Chunks ranked by BM25 for the query's terms, restricted by the same filters
+// as the vector search. Scoring happens in the database (search_document_chunks).
+export async function searchKeywordIndex(
+  supabase: SupabaseClient,
+  query: string,
+  k: number,
+  filters: SearchFilters = {}
+): Promise<KeywordMatch[]> {
+  const terms = [...new Set(tokenize(query))];
+
+  if (terms.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await supabase.rpc('search_document_chunks', {
+    query_terms: terms,
+    match_count: k,
+    filter_document_ids: filters.documentIds ?? null,
+    filter_source_types: filters.sourceTypes ?? null,
+    filter_tags: filters.tags ?? null,
+    filter_collections: filters.collections ?? null,
+    filter_languages: filters.languages ?? null,
+    filter_date_from: filters.dateFrom ? `${filters.dateFrom}T00:00:00Z` : null,
+    filter_date_to: filters.dateTo ? `${filters.dateTo}T23:59:59Z` : null,
+  });
+
+  if (error) {
+    throw new Error(`Failed to search keyword index: ${error.message}`);
+  }
+
+  return (data ?? []) as KeywordMatch[];
+}
@@ -1,109 +1,294 @@
 import { Document } from 'langchain/document';
-import { RecursiveCharacterTextSplitter } from 'langchain/text_splitter';
+import {
+  CharacterTextSplitter,
+  MarkdownTextSplitter,
+  RecursiveCharacterTextSplitter,
+  TokenTextSplitter,
+} from 'langchain/text_splitter';
 import { OpenAIEmbeddings } from '@langchain/openai';
 import { PineconeStore } from '@langchain/pinecone';
-import { CheerioWebBaseLoader } from '@langchain/community/document_loaders/web/cheerio';
-import { pinecone, index } from './pinecone';
-import { marked } from 'marked';
-
-const pdfParse = require('pdf-parse');
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createHash, randomUUID } from 'crypto';
+import { pinecone, index, KNOWLEDGE_BASE_NAMESPACE } from './pinecone';
+import { getExtractor, PDFOutlineEntry, PDFPage, SourceType } from './extractors';
+import { HEADING_PATH_SEPARATOR, splitStructured, withHeadingPath } from './structured-chunking';
+import { extractMainContent, WebPageContent } from './web-content';
+import { CRAWLER_USER_AGENT } from './web-crawler';
+import { ChunkingSettings, DEFAULT_CHUNKING_SETTINGS } from '@/lib/chunking-profiles';
+import type { ChunkContentType } from '@/lib/database.types';
+import { formatEmailCitation, formatPageRange } from '@/lib/utils';
+import { EmailAttachment, EmailHeaders } from './email';
+import { detectLanguage } from './language-detection';
+import type { SearchFilters } from '@/lib/search-filters';
+import { ContextExpansion, DEFAULT_RETRIEVAL_SETTINGS, RetrievalSettings } from '@/lib/retrieval-settings';
+import { searchKeywordIndex } from './keyword-index';
+import { getReranker } from './reranker';
+import { generateHypotheticalAnswer, generateQueryVariants } from './query-rewriting';
+import { countTokens } from './token-counting';
 
 export interface ProcessedDocumentLangChain {
+  documentId: string;
   filename: string;
+  contentHash: string;
+  // The stored chunks, each with its vector ID as `id`
   documents: Document[];
   vectorStore: PineconeStore;
   totalChunks: number;
+  // True when identical chunks were already stored and nothing was embedded
+  unchanged: boolean;
+}
+
+export interface ExtractedDocument {
+  text: string;
+  pages: PDFPage[];
+  // PDF bookmarks, used to chunk along the document's sections
+  outline?: PDFOutlineEntry[];
+  // SHA-256 of the extracted text, used to detect duplicate uploads
+  contentHash: string;
+  // Page metadata, only set for websites
+  title?: string;
+  canonicalUrl?: string;
+  language?: string | null;
+  lastModified?: string | null;
+  // Emails only: headers, and the attachments to ingest as documents of their own
+  email?: EmailHeaders;
+  attachments?: EmailAttachment[];
+}
+
+// Labels from the document's catalog entry that retrieval can filter on
+export interface DocumentLabels {
+  collection?: string | null;
+  // Archive and folder imports: the file's path inside the archive or folder
+  path?: string | null;
+  tags?: string[];
+}
+
+// The email an attachment came with
+export interface AttachmentParent {
+  documentId: string;
+  filename: string;
+  email?: EmailHeaders;
+}
+
+// Raw HTML of a page that was already downloaded, with its Last-Modified header
+export interface FetchedPage {
+  html: string;
+  lastModified: string | null;
+}
+
+// A document as stored in Pinecone, described by one of its chunks
+export interface StoredDocument {
+  // The document ID, or for documents uploaded before document IDs existed
+  // the ID of one of their vectors (see listLegacyVectorIds)
+  id: string;
+  filename: string;
+  source: string;
+  url?: string;
+  // When the chunks were stored
+  timestamp?: string;
+  chunkCount: number;
+}
+
+export interface RetrievalOptions extends Partial<RetrievalSettings> {
+  filters?: SearchFilters;
+  // Client to query the keyword index with (utils/keyword-index.ts); without
+  // it only vector search is used
+  supabase?: SupabaseClient;
+}
+
+// A chunk found by hybrid search
+export interface RetrievedChunk {
+  document: Document;
+  // Fused rank score, 1 for a chunk ranked first by both searches
+  score: number;
+  // Cosine similarity; missing for chunks found only by keyword search
+  vectorScore?: number;
+  // BM25 score; missing for chunks found only by vector search
+  keywordScore?: number;
+  // Relevance from the reranker, 0 to 1; missing when no reranker ran
+  rerankScore?: number;
+}
+
+// A chunk the chat context was built from, as shown in the sources sidebar
+export interface ContextSource {
+  filename: string;
+  chunkIndex: number;
+  pageStart?: number;
+  pageEnd?: number;
+  headingPath?: string;
+  ocrConfidence?: number;
+  contentType?: ChunkContentType;
+  // Emails and their attachments, e.g. "E-Mail von Anna Muster vom 3. März 2025"
+  citation?: string;
+  score: number;
+  vectorScore?: number;
+  keywordScore?: number;
+  rerankScore?: number;
+  content: string;
+}
+
+export interface RetrievalResult {
+  chunks: RetrievedChunk[];
+  // The paraphrases (multi-query mode) or hypothetical answer (HyDE mode) that
+  // were searched besides the query; empty in the single mode
+  generatedQueries: string[];
+}
+
+// Stages reported while processing; progress is the overall percentage (0-100)
+export type ProcessingStage = 'split' | 'embed' | 'upsert';
+export type ProgressCallback = (
+  stage: ProcessingStage,
+  progress: number,
+  details?: { message?: string; retry?: boolean }
+) => void | Promise<void>;
+
+const EMBEDDING_BATCH_SIZE = 100;
+const EMBEDDING_MAX_ATTEMPTS = 3;
+// Vector IDs per fetch; fetch passes them in the URL
+const FETCH_BATCH_SIZE = 100;
+const WEBSITE_FETCH_TIMEOUT_MS = 30000;
+// Rough characters per token, to compare token-based chunk sizes with section lengths
+const CHARS_PER_TOKEN = 4;
+// Results taken from each search before fusing them
+const HYBRID_CANDIDATES = 20;
+// Reciprocal rank fusion constant: a chunk at rank r contributes weight / (RRF_K + r)
+const RRF_K = 60;
+// Vector matches below this similarity are not used as context, unless their
+// BM25 score reaches MIN_KEYWORD_SCORE. Reranked chunks use the reranker's minimum.
+const MIN_CONTEXT_SCORE = 0.4;
+// A chunk sharing only a common word with the query scores below 1; this
+// takes a rare term (in roughly one chunk of seven or fewer) or several terms
+const MIN_KEYWORD_SCORE = 2;
+// Candidates fetched for the reranker and MMR to pick the best from
+const RERANK_CANDIDATES = 30;
+// Chunks on each side of a match added by the 'neighbors' context expansion
+const NEIGHBOR_CHUNKS = 1;
+// Chunks of a section the 'section' context expansion looks at
+const MAX_SECTION_CHUNKS = 20;
+// Overlapping chunks are only merged on overlaps at least this long, so that
+// chunks merely ending and starting with the same word are not cut
+const MIN_CHUNK_OVERLAP = 20;
+const CONTEXT_SEPARATOR = '\n\n---\n\n';
+
+export interface ProcessOptions {
+  // ID to store the chunks under, usually the document's catalog ID
+  documentId?: string;
+  // Ingest as a new version of `documentId`; its previous chunks are removed
+  // once the new ones are stored.
+  replace?: boolean;
+  // Content the caller already extracted (e.g. to check for duplicates first)
+  extracted?: ExtractedDocument;
+  // Splitter settings from the document's chunking profile; defaults otherwise
+  chunking?: ChunkingSettings;
+  // Catalog labels copied to every chunk, see DocumentLabels
+  labels?: DocumentLabels;
+  // Email attachments: the email, whose sender and date the chunks are cited with
+  attachmentOf?: AttachmentParent;
+  onProgress?: ProgressCallback;
 }
 
 export class DocumentProcessor {
   private embeddings: OpenAIEmbeddings;
-  private textSplitter: RecursiveCharacterTextSplitter;
 
   constructor() {
     this.embeddings = new OpenAIEmbeddings({
       openAIApiKey: process.env.OPENAI_API_KEY,
       modelName: 'text-embedding-3-small',
     });
-
-    this.textSplitter = new RecursiveCharacterTextSplitter({
-      chunkSize: 1000,
-      chunkOverlap: 200,
-      separators: ['\n\n', '\n', ' ', ''],
-    });
   }
 
-  async extractTextFromPDF(buffer: Buffer): Promise<string> {
+  // `page` is the already fetched page (e.g. from the crawler); otherwise the URL is loaded
+  async extractTextFromWebsite(url: string, page?: FetchedPage): Promise<WebPageContent> {
     try {
-      console.log('Starting PDF extraction with LangChain approach, buffer size:', buffer.length);
-      
-      const data = await pdfParse(buffer, {
-        max: 0, // parse all pages
-      });
-      
-      console.log(`PDF parsing successful: ${data.numpages} pages, ${data.text.length} characters`);
-      return data.text;
-    } catch (error) {
-      console.error('PDF parsing error:', error);
-      throw new Error(`Failed to parse PDF file: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
-  }
+      console.log('Starting website extraction for URL:', url);
 
-  async extractTextFromMarkdown(content: string): Promise<string> {
-    // Convert markdown to plain text by removing markdown syntax
-    const html = await marked(content);
-    // Remove HTML tags to get plain text
-    return html.replace(/<[^>]*>/g, '');
-  }
+      if (!page) {
+        const response = await fetch(url, {
+          headers: { 'User-Agent': CRAWLER_USER_AGENT },
+          signal: AbortSignal.timeout(WEBSITE_FETCH_TIMEOUT_MS),
+        });
 
-  async extractTextFromWebsite(url: string): Promise<{ text: string; title: string }> {
-    try {
-      console.log('Starting website extraction for URL:', url);
-      
-      // Use CheerioWebBaseLoader from LangChain
-      const loader = new CheerioWebBaseLoader(url, {
-        selector: 'body', // Extract text from body
-      });
-      
-      const docs = await loader.load();
-      
-      if (docs.length === 0) {
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status} ${response.statusText}`);
+        }
+
+        page = { html: await response.text(), lastModified: response.headers.get('last-modified') };
+      }
+
+      // Only the main content; navigation, cookie banners and footers are dropped
+      const content = extractMainContent(page.html, url, page.lastModified);
+
+      if (!content.text) {
         throw new Error('No content found on the webpage');
       }
-      
-      const doc = docs[0];
-      const text = doc.pageContent;
-      const title = doc.metadata.title || new URL(url).hostname;
-      
-      console.log(`Website extraction successful: ${text.length} characters, title: "${title}"`);
-      return { text, title };
+
+      console.log(`Website extraction successful: ${content.text.length} characters, title: "${content.title}"`);
+      return content;
     } catch (error) {
       console.error('Website extraction error:', error);
       throw new Error(`Failed to extract text from website: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  async processWebsite(url: string): Promise<ProcessedDocumentLangChain> {
+  async extractWebsite(url: string, page?: FetchedPage): Promise<ExtractedDocument & { title: string }> {
+    const { text, ...web } = await this.extractTextFromWebsite(url, page);
+    return { text, pages: [], contentHash: hashContent(text), ...web };
+  }
+
+  async extractDocument(filename: string, content: Buffer | string, fileType: SourceType): Promise<ExtractedDocument> {
+    // Extract text with the extractor registered for this file type
+    const buffer = typeof content === 'string' ? Buffer.from(content, 'utf-8') : content;
+    const { text, pages = [], outline, email, attachments } = await getExtractor(fileType).extract(buffer);
+
+    if (!text.trim()) {
+      throw new Error(`No text could be extracted from ${filename}`);
+    }
+
+    return { text, pages, outline, email, attachments, contentHash: hashContent(text) };
+  }
+
+  async processWebsite(url: string, options: ProcessOptions = {}): Promise<ProcessedDocumentLangChain> {
+    const documentId = options.documentId ?? randomUUID();
+
     // Extract text and title from website
-    const { text, title } = await this.extractTextFromWebsite(url);
+    const {
+      text,
+      title = new URL(url).hostname,
+      contentHash,
+      canonicalUrl,
+      language,
+      lastModified,
+    } = options.extracted ?? await this.extractWebsite(url);
 
     // Create a LangChain Document
     const document = new Document({
       pageContent: text,
       metadata: {
         source: 'website',
+        documentId,
         filename: title,
         url: url,
+        title,
         timestamp: new Date().toISOString(),
+        // Pinecone rejects null metadata values, so unknown fields are left out
+        ...(canonicalUrl && { canonicalUrl }),
+        ...languageMetadata(language, text),
+        ...(lastModified && { lastModified }),
+        ...dateMetadata(lastModified),
+        ...labelMetadata(options.labels),
       },
     });
 
-    // Split the document into chunks
-    const documents = await this.textSplitter.splitDocuments([document]);
+    // Split the document into chunks along its headings
+    await options.onProgress?.('split', 10);
+    const documents = await this.splitDocument(document, { chunking: options.chunking });
+    const revision = createRevision(documents);
     
     // Add chunk metadata
     documents.forEach((doc, index) => {
       doc.metadata = {
         ...doc.metadata,
+        revision,
         chunkIndex: index,
         totalChunks: documents.length,
         chunkId: `${title}-chunk-${index}`,
@@ -112,56 +297,57 @@ export class DocumentProcessor {
 
     console.log(`Website split into ${documents.length} chunks`);
 
-    // Create vector store and add documents
-    const vectorStore = await PineconeStore.fromDocuments(
-      documents,
-      this.embeddings,
-      {
-        pineconeIndex: index,
-        namespace: 'knowledge-base', // Single namespace for all documents
-      }
-    );
+    const { vectorStore, unchanged } = await this.storeChunks(documents, documentId, revision, options);
 
     console.log(`Website documents stored in Pinecone vector store`);
 
     return {
+      documentId,
       filename: title,
+      contentHash,
       documents,
       vectorStore,
       totalChunks: documents.length,
+      unchanged,
     };
   }
 
   async processDocument(
     filename: string,
     content: Buffer | string,
-    fileType: 'pdf' | 'markdown'
+    fileType: SourceType,
+    options: ProcessOptions = {}
   ): Promise<ProcessedDocumentLangChain> {
-    // Extract text based on file type
-    let text: string;
-    if (fileType === 'pdf') {
-      text = await this.extractTextFromPDF(content as Buffer);
-    } else {
-      text = await this.extractTextFromMarkdown(content as string);
-    }
+    const documentId = options.documentId ?? randomUUID();
+    const { text, pages, outline, email, contentHash } = options.extracted ?? await this.extractDocument(filename, content, fileType);
+    const { attachmentOf } = options;
 
     // Create a LangChain Document
     const document = new Document({
       pageContent: text,
       metadata: {
         source: fileType,
+        documentId,
         filename,
         timestamp: new Date().toISOString(),
+        ...languageMetadata(null, text),
+        ...dateMetadata((email ?? attachmentOf?.email)?.date),
+        ...labelMetadata(options.labels),
+        ...emailMetadata(email ?? attachmentOf?.email),
+        ...(attachmentOf && { parentDocumentId: attachmentOf.documentId, parentFilename: attachmentOf.filename }),
       },
     });
 
-    // Split the document into chunks
-    const documents = await this.textSplitter.splitDocuments([document]);
+    // Split the document into chunks along its headings, outline and statute articles
+    await options.onProgress?.('split', 10);
+    const documents = await this.splitDocument(document, { pages, outline, chunking: options.chunking });
+    const revision = createRevision(documents);
     
     // Add chunk metadata
     documents.forEach((doc, index) => {
       doc.metadata = {
         ...doc.metadata,
+        revision,
         chunkIndex: index,
         totalChunks: documents.length,
         chunkId: `${filename}-chunk-${index}`,
@@ -170,26 +356,299 @@ export class DocumentProcessor {
 
     console.log(`Document split into ${documents.length} chunks`);
 
-    // Create vector store and add documents
-    const vectorStore = await PineconeStore.fromDocuments(
-      documents,
-      this.embeddings,
-      {
-        pineconeIndex: index,
-        namespace: 'knowledge-base', // Single namespace for all documents
-      }
-    );
+    const { vectorStore, unchanged } = await this.storeChunks(documents, documentId, revision, options);
 
     console.log(`Documents stored in Pinecone vector store`);
 
     return {
+      documentId,
       filename,
+      contentHash,
       documents,
       vectorStore,
       totalChunks: documents.length,
+      unchanged,
     };
   }
 
+  // Splits extracted content like processDocument and processWebsite do, but
+  // embeds and stores nothing (used to preview an upload)
+  async splitExtracted(extracted: ExtractedDocument, chunking?: ChunkingSettings): Promise<Document[]> {
+    const document = new Document({ pageContent: extracted.text, metadata: {} });
+    return this.splitDocument(document, { pages: extracted.pages, outline: extracted.outline, chunking });
+  }
+
+  // One Document per chunk, carrying the heading path and, for PDFs, the pages it spans
+  private async splitDocument(
+    document: Document,
+    {
+      pages = [],
+      outline,
+      chunking = DEFAULT_CHUNKING_SETTINGS,
+    }: { pages?: PDFPage[]; outline?: PDFOutlineEntry[]; chunking?: ChunkingSettings }
+  ): Promise<Document[]> {
+    const text = document.pageContent;
+    const maxLength = chunking.splitter === 'token' ? chunking.chunkSize * CHARS_PER_TOKEN : chunking.chunkSize;
+    const chunks = await splitStructured(text, createTextSplitter(chunking), {
+      pages,
+      outline,
+      maxSectionLength: maxLength,
+      maxTableLength: maxLength,
+    });
+    const pageRanges = pages.length > 0 ? locatePageRanges(pages, chunks) : [];
+
+    return chunks.map((chunk, index) => new Document({
+      pageContent: chunk.text,
+      metadata: {
+        ...document.metadata,
+        ...pageRanges[index],
+        ...(pageRanges[index] && ocrMetadata(pages, pageRanges[index])),
+        // Pinecone metadata holds strings, so the path is stored joined
+        ...(chunk.headingPath.length > 0 && { headingPath: chunk.headingPath.join(HEADING_PATH_SEPARATOR) }),
+        contentType: chunk.contentType,
+      },
+    }));
+  }
+
+  // Vector IDs are `${documentId}#${revision}#${chunkIndex}`, so every chunk of a
+  // document (across versions) can be listed by ID prefix. The revision is
+  // derived from the chunk texts, so storing the same chunks again is a no-op.
+  private async storeChunks(
+    documents: Document[],
+    documentId: string,
+    revision: string,
+    { replace = false, onProgress }: ProcessOptions
+  ): Promise<{ vectorStore: PineconeStore; unchanged: boolean }> {
+    const vectorStore = new PineconeStore(this.embeddings, {
+      pineconeIndex: index,
+      namespace: KNOWLEDGE_BASE_NAMESPACE,
+    });
+
+    const ids = documents.map((_, i) => `${documentId}#${revision}#${i}`);
+    documents.forEach((doc, i) => { doc.id = ids[i]; });
+    const existingIds = await this.listVectorIds(`${documentId}#${revision}#`);
+    const unchanged = existingIds.length === documents.length;
+
+    if (unchanged) {
+      console.log(`Document ${documentId} is unchanged (revision ${revision}), skipping embedding`);
+    } else {
+      // Embed in batches so progress can be reported and a failing batch is
+      // retried on its own instead of restarting the whole document
+      const vectors: number[][] = [];
+      for (let i = 0; i < documents.length; i += EMBEDDING_BATCH_SIZE) {
+        const batch = documents.slice(i, i + EMBEDDING_BATCH_SIZE);
+        const progress = 20 + Math.round((65 * i) / documents.length);
+        vectors.push(...await this.embedBatch(batch, i / EMBEDDING_BATCH_SIZE + 1, progress, onProgress));
+
+        const done = Math.min(i + EMBEDDING_BATCH_SIZE, documents.length);
+        await onProgress?.('embed', 20 + Math.round((65 * done) / documents.length), {
+          message: `Embedded ${done} of ${documents.length} chunks`,
+        });
+      }
+
+      for (let i = 0; i < documents.length; i += EMBEDDING_BATCH_SIZE) {
+        await vectorStore.addVectors(
+          vectors.slice(i, i + EMBEDDING_BATCH_SIZE),
+          documents.slice(i, i + EMBEDDING_BATCH_SIZE),
+          { ids: ids.slice(i, i + EMBEDDING_BATCH_SIZE) }
+        );
+
+        const done = Math.min(i + EMBEDDING_BATCH_SIZE, documents.length);
+        await onProgress?.('upsert', 85 + Math.round((15 * done) / documents.length), {
+          message: `Stored ${done} of ${documents.length} chunks`,
+        });
+      }
+    }
+
+    // Only drop the previous version once the new one is searchable, so the
+    // document never disappears from retrieval while it is being replaced
+    if (replace) {
+      const removed = await this.deleteDocument(documentId, revision);
+      console.log(`Replaced document ${documentId}: removed ${removed} outdated chunks`);
+    }
+
+    return { vectorStore, unchanged };
+  }
+
+  private async embedBatch(
+    batch: Document[],
+    batchNumber: number,
+    progress: number,
+    onProgress?: ProgressCallback
+  ): Promise<number[][]> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        // The heading path is embedded with the chunk but not stored in its text
+        return await this.embeddings.embedDocuments(
+          batch.map(doc => withHeadingPath(doc.pageContent, doc.metadata.headingPath))
+        );
+      } catch (error) {
+        if (attempt >= EMBEDDING_MAX_ATTEMPTS) {
+          throw new Error(`Embedding batch ${batchNumber} failed after ${attempt} attempts: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+
+        console.warn(`Embedding batch ${batchNumber} failed (attempt ${attempt}), retrying:`, error);
+        await onProgress?.('embed', progress, {
+          message: `Retrying embedding batch ${batchNumber} (attempt ${attempt + 1} of ${EMBEDDING_MAX_ATTEMPTS})`,
+          retry: true,
+        });
+        await new Promise(resolve => setTimeout(resolve, 1000 * 2 ** (attempt - 1)));
+      }
+    }
+  }
+
+  async deleteDocument(documentId: string, keepRevision?: string): Promise<number> {
+    try {
+      const namespace = index.namespace(KNOWLEDGE_BASE_NAMESPACE);
+      let ids = (await this.listVectorIds(`${documentId}#`))
+        .filter(id => !keepRevision || !id.startsWith(`${documentId}#${keepRevision}#`));
+
+      if (ids.length === 0) {
+        ids = (await this.listLegacyVectorIds(documentId))
+          .filter(id => !id.startsWith(`${documentId}#`));
+      }
+
+      for (let i = 0; i < ids.length; i += 1000) {
+        await namespace.deleteMany(ids.slice(i, i + 1000));
+      }
+
+      console.log(`Deleted ${ids.length} chunks of document ${documentId}`);
+      return ids.length;
+    } catch (error) {
+      console.error('Error deleting document:', error);
+      throw new Error(`Failed to delete document: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Rewrites the collection and tags on every stored chunk of a document.
+  // Vectors are fetched and upserted again, as an update cannot remove a
+  // metadata field. Returns the number of chunks updated.
+  async updateDocumentLabels(documentId: string, labels: Pick<DocumentLabels, 'collection' | 'tags'>): Promise<number> {
+    try {
+      const namespace = index.namespace(KNOWLEDGE_BASE_NAMESPACE);
+      let ids = await this.listVectorIds(`${documentId}#`);
+      if (ids.length === 0) {
+        ids = await this.listLegacyVectorIds(documentId);
+      }
+
+      for (let i = 0; i < ids.length; i += FETCH_BATCH_SIZE) {
+        const { records } = await namespace.fetch(ids.slice(i, i + FETCH_BATCH_SIZE));
+        await namespace.upsert(Object.values(records).map(record => {
+          const metadata = { ...record.metadata };
+          delete metadata.collection;
+          delete metadata.tags;
+          return {
+            id: record.id,
+            values: record.values,
+            metadata: { ...metadata, ...labelMetadata(labels) },
+          };
+        }));
+      }
+
+      console.log(`Updated labels of ${ids.length} chunks of document ${documentId}`);
+      return ids.length;
+    } catch (error) {
+      console.error('Error updating document labels:', error);
+      throw new Error(`Failed to update document labels: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Every document in the knowledge base, grouped from its chunks: by the
+  // document ID in the vector IDs or, for documents uploaded before document
+  // IDs existed, by filename. Used to catalog documents stored before the
+  // catalog existed (utils/catalog-backfill.ts).
+  async listStoredDocuments(): Promise<StoredDocument[]> {
+    try {
+      const vectorIdsByDocument = new Map<string, string[]>();
+      const legacyIds: string[] = [];
+
+      for (const id of await this.listVectorIds()) {
+        if (id.includes('#')) {
+          const documentId = id.split('#')[0];
+          vectorIdsByDocument.set(documentId, [...(vectorIdsByDocument.get(documentId) ?? []), id]);
+        } else {
+          legacyIds.push(id);
+        }
+      }
+
+      // One chunk describes its whole document
+      const firstChunks = await this.fetchChunks([...vectorIdsByDocument.values()].map(ids => ids[0]));
+      const documents = [...vectorIdsByDocument].flatMap(([documentId, ids]) => {
+        const chunk = firstChunks.get(ids[0]);
+        return chunk ? [describeStoredDocument(documentId, chunk, ids.length)] : [];
+      });
+
+      const legacyChunksByFilename = new Map<string, Document[]>();
+      for (const chunk of (await this.fetchChunks(legacyIds)).values()) {
+        const filename = String(chunk.metadata.filename ?? '');
+        if (filename) {
+          legacyChunksByFilename.set(filename, [...(legacyChunksByFilename.get(filename) ?? []), chunk]);
+        }
+      }
+      for (const chunks of legacyChunksByFilename.values()) {
+        // The same vector stands for the document every time this runs
+        const [first] = chunks.sort((a, b) =>
+          Number(a.metadata.chunkIndex ?? 0) - Number(b.metadata.chunkIndex ?? 0) || a.id!.localeCompare(b.id!));
+        documents.push(describeStoredDocument(first.id!, first, chunks.length));
+      }
+
+      console.log(`Found ${documents.length} stored documents (${legacyChunksByFilename.size} without document IDs)`);
+      return documents;
+    } catch (error) {
+      console.error('Error listing stored documents:', error);
+      throw new Error(`Failed to list stored documents: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Every stored chunk of a document with its vector ID and metadata, e.g. to
+  // index chunks stored before the keyword index existed
+  async getDocumentChunks(documentId: string): Promise<Document[]> {
+    try {
+      let ids = await this.listVectorIds(`${documentId}#`);
+      if (ids.length === 0) {
+        ids = await this.listLegacyVectorIds(documentId);
+      }
+      return [...(await this.fetchChunks(ids)).values()];
+    } catch (error) {
+      console.error('Error fetching document chunks:', error);
+      throw new Error(`Failed to fetch document chunks: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async listVectorIds(prefix?: string): Promise<string[]> {
+    const namespace = index.namespace(KNOWLEDGE_BASE_NAMESPACE);
+    const ids: string[] = [];
+    let paginationToken: string | undefined;
+
+    do {
+      const page = await namespace.listPaginated({ prefix, paginationToken });
+      page.vectors?.forEach(vector => vector.id && ids.push(vector.id));
+      paginationToken = page.pagination?.next;
+    } while (paginationToken);
+
+    return ids;
+  }
+
+  // Documents uploaded before document IDs existed are identified by the ID of
+  // one of their vectors; all chunks sharing its filename belong to it.
+  private async listLegacyVectorIds(vectorId: string): Promise<string[]> {
+    const namespace = index.namespace(KNOWLEDGE_BASE_NAMESPACE);
+    const { records } = await namespace.fetch([vectorId]);
+    const filename = records[vectorId]?.metadata?.filename;
+
+    if (!filename) {
+      return [];
+    }
+
+    const queryResponse = await namespace.query({
+      topK: 10000,
+      vector: new Array(1536).fill(0),
+      filter: { filename: { $eq: filename } },
+    });
+
+    return queryResponse.matches?.map(match => match.id) ?? [];
+  }
+
   async searchSimilarDocuments(
     query: string,
     k: number = 5,
@@ -214,6 +673,7 @@ export class DocumentProcessor {
   async searchWithScore(
     query: string,
     k: number = 5,
+    filters: SearchFilters = {},
     namespace: string = 'knowledge-base'
   ): Promise<[Document, number][]> {
     try {
@@ -222,7 +682,7 @@ export class DocumentProcessor {
         namespace,
       });
 
-      const results = await vectorStore.similaritySearchWithScore(query, k);
+      const results = await vectorStore.similaritySearchWithScore(query, k, metadataFilter(filters));
       console.log(`Found ${results.length} similar documents with scores for query: "${query}"`);
       
       return results;
@@ -232,23 +692,207 @@ export class DocumentProcessor {
     }
   }
 
-  async getRelevantContext(query: string, maxChunks: number = 3): Promise<string> {
+  // Vector search fused with keyword (BM25) search by weighted reciprocal rank
+  // fusion, so exact terms like "Art. 257e" or "4A_32/2018" are found even
+  // when their embedding is not similar to the query's. The vector search can
+  // use a different text than the query, e.g. a hypothetical answer.
+  async hybridSearch(
+    query: string,
+    k: number = 5,
+    options: RetrievalOptions = {},
+    vectorQuery: string = query
+  ): Promise<RetrievedChunk[]> {
+    const { filters = {}, supabase, keywordWeight = DEFAULT_RETRIEVAL_SETTINGS.keywordWeight } = options;
+    const candidates = Math.max(k * 2, HYBRID_CANDIDATES);
+    const useKeywords = !!supabase && keywordWeight > 0;
+
+    const [vectorResults, keywordMatches] = await Promise.all([
+      keywordWeight < 1 || !useKeywords ? this.searchWithScore(vectorQuery, candidates, filters) : [],
+      useKeywords
+        ? searchKeywordIndex(supabase, query, candidates, filters).catch(error => {
+            // Vector search alone still answers the query
+            console.error('Keyword search failed, using vector search only:', error);
+            return [];
+          })
+        : [],
+    ]);
+
+    const chunks = new Map<string, RetrievedChunk>();
+    const vectorWeight = useKeywords ? 1 - keywordWeight : 1;
+    const maxScore = (vectorWeight + (useKeywords ? keywordWeight : 0)) / (RRF_K + 1);
+
+    vectorResults.forEach(([document, score], rank) => {
+      chunks.set(document.id ?? `vector-${rank}`, {
+        document,
+        score: vectorWeight / (RRF_K + rank + 1) / maxScore,
+        vectorScore: score,
+      });
+    });
+
+    const keywordOnly = keywordMatches.filter(match => !chunks.has(match.id)).map(match => match.id);
+    const keywordDocuments = await this.fetchChunks(keywordOnly);
+
+    keywordMatches.forEach((match, rank) => {
+      const fused = keywordWeight / (RRF_K + rank + 1) / maxScore;
+      const chunk = chunks.get(match.id);
+      const document = keywordDocuments.get(match.id);
+
+      if (chunk) {
+        chunk.score += fused;
+        chunk.keywordScore = match.score;
+      } else if (document) {
+        chunks.set(match.id, { document, score: fused, keywordScore: match.score });
+      }
+    });
+
+    const results = [...chunks.values()].sort((a, b) => b.score - a.score).slice(0, k);
+    console.log(`Hybrid search found ${vectorResults.length} vector and ${keywordMatches.length} keyword matches for query: "${query}"`);
+    return results;
+  }
+
+  // Hybrid search over RERANK_CANDIDATES chunks, reordered by the reranker, of
+  // which k are picked (see selectChunks)
+  async retrieve(query: string, k: number = 5, options: RetrievalOptions = {}): Promise<RetrievalResult> {
+    const { chunks, generatedQueries } = await this.rankCandidates(query, k, options);
+    return { chunks: await this.selectChunks(chunks, k, options), generatedQueries };
+  }
+
+  // Like retrieve, but only chunks relevant enough to be used as context are picked
+  private async retrieveRelevant(query: string, k: number, options: RetrievalOptions): Promise<RetrievalResult> {
+    const { chunks, generatedQueries } = await this.rankCandidates(query, k, options);
+    const relevantChunks = chunks.filter(chunk => isRelevant(chunk, options));
+    return { chunks: await this.selectChunks(relevantChunks, k, options), generatedQueries };
+  }
+
+  // The candidates to pick k chunks from, best first. Without a reranker (or if
+  // it fails) the hybrid search order is kept. Candidates are always reranked
+  // against the query itself, whatever the query mode searched with.
+  private async rankCandidates(query: string, k: number, options: RetrievalOptions): Promise<RetrievalResult> {
+    const reranker = getReranker(options.reranker ?? DEFAULT_RETRIEVAL_SETTINGS.reranker);
+    const { chunks: candidates, generatedQueries } = await this.searchCandidates(
+      query,
+      reranker || diversifies(options) ? Math.max(k, RERANK_CANDIDATES) : k,
+      options
+    );
+
+    if (!reranker || candidates.length === 0) {
+      return { chunks: candidates, generatedQueries };
+    }
+
+    try {
+      const scores = await reranker.score(
+        query,
+        candidates.map(({ document }) => withHeadingPath(document.pageContent, document.metadata.headingPath))
+      );
+      console.log(`Reranked ${candidates.length} candidates with the ${reranker.type} reranker`);
+
+      const chunks = candidates
+        .map((chunk, i) => ({ ...chunk, rerankScore: scores[i] ?? 0 }))
+        .sort((a, b) => b.rerankScore - a.rerankScore);
+      return { chunks, generatedQueries };
+    } catch (error) {
+      console.error(`Reranking with the ${reranker.type} reranker failed, keeping the search order:`, error);
+      return { chunks: candidates, generatedQueries };
+    }
+  }
+
+  // Picks k of the ranked candidates. With maximal marginal relevance (mmrLambda
+  // below 1) each next chunk is the one best balancing its relevance against its
+  // embedding's similarity to the chunks already picked, so near-duplicates give
+  // way to other passages. At most maxChunksPerDocument chunks come from one
+  // document, so a single long document cannot fill every slot.
+  private async selectChunks(chunks: RetrievedChunk[], k: number, options: RetrievalOptions): Promise<RetrievedChunk[]> {
+    const {
+      mmrLambda = DEFAULT_RETRIEVAL_SETTINGS.mmrLambda,
+      maxChunksPerDocument = DEFAULT_RETRIEVAL_SETTINGS.maxChunksPerDocument,
+    } = options;
+
+    if (!diversifies(options) || chunks.length === 0) {
+      return chunks.slice(0, k);
+    }
+
+    let vectors = new Map<string, number[]>();
+    if (mmrLambda < 1 && chunks.length > 1) {
+      try {
+        vectors = await this.fetchVectors(chunks.flatMap(({ document }) => document.id ? [document.id] : []));
+      } catch (error) {
+        console.error('Fetching embeddings for MMR failed, picking by relevance only:', error);
+      }
+    }
+    const vectorOf = (chunk: RetrievedChunk) => chunk.document.id ? vectors.get(chunk.document.id) : undefined;
+
+    const selected: RetrievedChunk[] = [];
+    const perDocument = new Map<string, number>();
+    const remaining = [...chunks];
+
+    while (selected.length < k && remaining.length > 0) {
+      let best = -1;
+      let bestScore = -Infinity;
+
+      remaining.forEach((chunk, i) => {
+        if (maxChunksPerDocument > 0 && (perDocument.get(documentKey(chunk)) ?? 0) >= maxChunksPerDocument) {
+          return;
+        }
+        const vector = vectorOf(chunk);
+        const redundancy = vector
+          ? Math.max(0, ...selected.map(other => cosineSimilarity(vector, vectorOf(other))))
+          : 0;
+        const score = mmrLambda * (chunk.rerankScore ?? chunk.score) - (1 - mmrLambda) * redundancy;
+        if (score > bestScore) {
+          best = i;
+          bestScore = score;
+        }
+      });
+
+      if (best === -1) {
+        break;
+      }
+      const [chunk] = remaining.splice(best, 1);
+      selected.push(chunk);
+      perDocument.set(documentKey(chunk), (perDocument.get(documentKey(chunk)) ?? 0) + 1);
+    }
+
+    return selected;
+  }
+
+  // Hybrid search in the requested query mode. Multi-query fuses the searches
+  // for the query and its paraphrases; HyDE searches the vectors with a
+  // hypothetical answer and the keyword index with the query. If generating
+  // fails, the query is searched alone.
+  private async searchCandidates(query: string, k: number, options: RetrievalOptions): Promise<RetrievalResult> {
+    switch (options.queryMode ?? DEFAULT_RETRIEVAL_SETTINGS.queryMode) {
+      case 'multi-query': {
+        const variants = await generateQueryVariants(query);
+        if (variants.length === 0) {
+          break;
+        }
+        const rankings = await Promise.all(
+          [query, ...variants].map(variant => this.hybridSearch(variant, k, options))
+        );
+        return { chunks: fuseRankings(rankings).slice(0, k), generatedQueries: variants };
+      }
+      case 'hyde': {
+        const answer = await generateHypotheticalAnswer(query);
+        if (!answer) {
+          break;
+        }
+        return { chunks: await this.hybridSearch(query, k, options, answer), generatedQueries: [answer] };
+      }
+    }
+
+    return { chunks: await this.hybridSearch(query, k, options), generatedQueries: [] };
+  }
+
+  async getRelevantContext(query: string, maxChunks: number = 3, options: RetrievalOptions = {}): Promise<string> {
     try {
-      const results = await this.searchWithScore(query, maxChunks);
-      
-      // Filter results with good similarity scores (you can adjust this threshold)
-      const relevantResults = results.filter(([, score]) => score > 0.4);
+      const { chunks: relevantResults } = await this.retrieveRelevant(query, maxChunks, options);
       
       if (relevantResults.length === 0) {
         console.log('No relevant context found for query');
         return '';
       }
 
-      const context = relevantResults
-        .map(([doc, score]) => {
-          return `[Score: ${score.toFixed(3)}] ${doc.pageContent}`;
-        })
-        .join('\n\n---\n\n');
+      const { context } = await this.buildContext(relevantResults, options);
 
       console.log(`Retrieved ${relevantResults.length} relevant context chunks`);
       return context;
@@ -258,46 +902,478 @@ export class DocumentProcessor {
     }
   }
 
-  async getRelevantContextWithSources(query: string, maxChunks: number = 3): Promise<{
+  async getRelevantContextWithSources(query: string, maxChunks: number = 3, options: RetrievalOptions = {}): Promise<{
     context: string;
-    sources: Array<{
-      filename: string;
-      chunkIndex: number;
-      score: number;
-      content: string;
-    }>;
+    sources: ContextSource[];
+    generatedQueries: string[];
   }> {
     try {
-      const results = await this.searchWithScore(query, maxChunks);
-      
-      // Filter results with good similarity scores (you can adjust this threshold)
-      const relevantResults = results.filter(([, score]) => score > 0.4);
+      const { chunks: relevantResults, generatedQueries } = await this.retrieveRelevant(query, maxChunks, options);
       
       if (relevantResults.length === 0) {
         console.log('No relevant context found for query');
-        return { context: '', sources: [] };
+        return { context: '', sources: [], generatedQueries };
       }
 
-      const context = relevantResults
-        .map(([doc, score]) => {
-          return `[Score: ${score.toFixed(3)}] ${doc.pageContent}`;
-        })
-        .join('\n\n---\n\n');
+      // Only the matches that fit into the context are sources
+      const { context, matches } = await this.buildContext(relevantResults, options);
 
-      const sources = relevantResults.map(([doc, score]) => ({
+      const sources = matches.map(({ document: doc, score, vectorScore, keywordScore, rerankScore }) => ({
         filename: doc.metadata.filename as string,
         chunkIndex: doc.metadata.chunkIndex as number,
-        score: score,
+        pageStart: doc.metadata.pageStart as number | undefined,
+        pageEnd: doc.metadata.pageEnd as number | undefined,
+        headingPath: doc.metadata.headingPath as string | undefined,
+        ocrConfidence: doc.metadata.ocrConfidence as number | undefined,
+        contentType: doc.metadata.contentType as ChunkContentType | undefined,
+        citation: formatEmailCitation(doc.metadata) ?? undefined,
+        score,
+        vectorScore,
+        keywordScore,
+        rerankScore,
         content: doc.pageContent.substring(0, 150) + (doc.pageContent.length > 150 ? '...' : ''),
       }));
 
-      console.log(`Retrieved ${relevantResults.length} relevant context chunks with sources`);
-      return { context, sources };
+      console.log(`Retrieved ${matches.length} relevant context chunks with sources`);
+      return { context, sources, generatedQueries };
     } catch (error) {
       console.error('Error getting relevant context with sources:', error);
-      return { context: '', sources: [] };
+      return { context: '', sources: [], generatedQueries: [] };
+    }
+  }
+
+  // The context for the prompt, filled greedily: the matches in order of
+  // relevance, each one that still fits into the token budget. With context
+  // expansion, the chunks around the matches are then added nearest first while
+  // they fit, and chunks that follow each other in a document are merged into
+  // one passage. Returns the matches that made it into the context.
+  private async buildContext(
+    chunks: RetrievedChunk[],
+    options: RetrievalOptions
+  ): Promise<{ context: string; matches: RetrievedChunk[] }> {
+    const {
+      contextExpansion = DEFAULT_RETRIEVAL_SETTINGS.contextExpansion,
+      contextTokens = DEFAULT_RETRIEVAL_SETTINGS.contextTokens,
+    } = options;
+
+    let tokens = 0;
+    const matches = chunks.filter(chunk => {
+      const chunkTokens = countTokens(formatContextChunk(chunk) + CONTEXT_SEPARATOR);
+      if (tokens + chunkTokens > contextTokens) {
+        return false;
+      }
+      tokens += chunkTokens;
+      return true;
+    });
+
+    if (matches.length < chunks.length) {
+      console.log(`${chunks.length - matches.length} of ${chunks.length} matches did not fit into ${contextTokens} context tokens`);
+    }
+
+    let passages = matches;
+    if (contextExpansion !== 'none') {
+      try {
+        passages = await this.expandMatches(matches, contextExpansion, contextTokens - tokens);
+      } catch (error) {
+        console.error('Context expansion failed, using the matches only:', error);
+      }
+    }
+
+    const context = passages
+      .map(chunk => formatContextChunk(chunk))
+      .join(CONTEXT_SEPARATOR);
+    return { context, matches };
+  }
+
+  // Adds the chunks around each match within the budget, one step further from
+  // the matches at a time (the chunk before first), and merges the chunks
+  // of a document that follow each other into passages scored like their best match
+  private async expandMatches(
+    matches: RetrievedChunk[],
+    expansion: Exclude<ContextExpansion, 'none'>,
+    budget: number
+  ): Promise<RetrievedChunk[]> {
+    // Vector IDs of the chunks around each match, nearest first; chunks stored
+    // before documents had IDs and revisions are not expanded
+    const surroundings = await Promise.all(matches.map(async ({ document }) => {
+      const { documentId, revision, chunkIndex, totalChunks, headingPath } = document.metadata;
+      if (!documentId || !revision || typeof chunkIndex !== 'number') {
+        return [];
+      }
+
+      const indexes = expansion === 'section' && headingPath
+        ? await this.listSectionChunkIndexes(documentId, revision, chunkIndex, headingPath)
+        : Array.from({ length: NEIGHBOR_CHUNKS * 2 + 1 }, (_, i) => chunkIndex - NEIGHBOR_CHUNKS + i);
+
+      return indexes
+        .filter(i => i !== chunkIndex && i >= 0 && (typeof totalChunks !== 'number' || i < totalChunks))
+        .sort((a, b) => Math.abs(a - chunkIndex) - Math.abs(b - chunkIndex) || a - b)
+        .map(i => `${documentId}#${revision}#${i}`);
+    }));
+
+    const documents = await this.fetchChunks([...new Set(surroundings.flat())]);
+    // Chunks in the context by vector ID, and the best match each belongs to
+    const selected = new Map<string, { document: Document; match: number }>();
+    matches.forEach(({ document }, match) => selected.set(document.id ?? `match-${match}`, { document, match }));
+
+    for (let step = 0; step < Math.max(0, ...surroundings.map(ids => ids.length)); step++) {
+      surroundings.forEach((ids, match) => {
+        const id = ids[step];
+        const document = id ? documents.get(id) : undefined;
+        if (!document || selected.has(id)) {
+          return;
+        }
+        const tokens = countTokens(withHeadingPath(document.pageContent, document.metadata.headingPath));
+        if (tokens <= budget) {
+          budget -= tokens;
+          selected.set(id, { document, match });
+        }
+      });
     }
+
+    console.log(`Expanded ${matches.length} matches to ${selected.size} context chunks`);
+    return mergeAdjacentChunks([...selected.values()]).map(({ document, match }) => ({
+      ...matches[match],
+      document,
+    }));
   }
+
+  // Chunk indexes of the section around a match: the chunks next to it, up to
+  // MAX_SECTION_CHUNKS / 2 on each side, that share its heading. Sections are
+  // contiguous, so each side ends at the first chunk under another heading.
+  private async listSectionChunkIndexes(
+    documentId: string,
+    revision: string,
+    chunkIndex: number,
+    headingPath: string
+  ): Promise<number[]> {
+    const reach = Math.floor(MAX_SECTION_CHUNKS / 2);
+    const window = Array.from({ length: reach * 2 + 1 }, (_, i) => chunkIndex - reach + i).filter(i => i >= 0);
+    const documents = await this.fetchChunks(window.map(i => `${documentId}#${revision}#${i}`));
+    const inSection = (i: number) => documents.get(`${documentId}#${revision}#${i}`)?.metadata.headingPath === headingPath;
+
+    const indexes = [chunkIndex];
+    for (const step of [-1, 1]) {
+      for (let i = chunkIndex + step; Math.abs(i - chunkIndex) <= reach && inSection(i); i += step) {
+        indexes.push(i);
+      }
+    }
+    return indexes;
+  }
+
+  // Stored embeddings by vector ID
+  private async fetchVectors(ids: string[]): Promise<Map<string, number[]>> {
+    const vectors = new Map<string, number[]>();
+    const namespace = index.namespace(KNOWLEDGE_BASE_NAMESPACE);
+
+    for (let i = 0; i < ids.length; i += FETCH_BATCH_SIZE) {
+      const { records } = await namespace.fetch(ids.slice(i, i + FETCH_BATCH_SIZE));
+      for (const record of Object.values(records)) {
+        if (record.values) {
+          vectors.set(record.id, record.values);
+        }
+      }
+    }
+    return vectors;
+  }
+
+  // Stored chunks by vector ID, as search results would return them
+  private async fetchChunks(ids: string[]): Promise<Map<string, Document>> {
+    const documents = new Map<string, Document>();
+    const namespace = index.namespace(KNOWLEDGE_BASE_NAMESPACE);
+
+    for (let i = 0; i < ids.length; i += FETCH_BATCH_SIZE) {
+      const { records } = await namespace.fetch(ids.slice(i, i + FETCH_BATCH_SIZE));
+      for (const record of Object.values(records)) {
+        // PineconeStore keeps the chunk text in the `text` metadata field
+        const { text, ...metadata } = record.metadata ?? {};
+        documents.set(record.id, new Document({ id: record.id, pageContent: String(text ?? ''), metadata }));
+      }
+    }
+    return documents;
+  }
+}
+
+function describeStoredDocument(id: string, chunk: Document, chunkCount: number): StoredDocument {
+  const { filename, source, url, timestamp } = chunk.metadata;
+  return {
+    id,
+    filename: String(filename ?? id),
+    source: String(source ?? 'text'),
+    ...(url && { url: String(url) }),
+    ...(timestamp && { timestamp: String(timestamp) }),
+    chunkCount,
+  };
+}
+
+function createTextSplitter({ splitter, chunkSize, chunkOverlap, separators }: ChunkingSettings) {
+  switch (splitter) {
+    case 'markdown':
+      return new MarkdownTextSplitter({ chunkSize, chunkOverlap });
+    case 'character':
+      return new CharacterTextSplitter({ chunkSize, chunkOverlap, separator: separators[0] });
+    case 'token':
+      return new TokenTextSplitter({ chunkSize, chunkOverlap, encodingName: 'cl100k_base' });
+    case 'recursive':
+      return new RecursiveCharacterTextSplitter({ chunkSize, chunkOverlap, separators });
+  }
+}
+
+// Map each chunk back to the PDF pages it was cut from. Chunk offsets refer to
+// the pages joined with '\n\n', exactly as built by the PDF extractor.
+function locatePageRanges(
+  pages: PDFPage[],
+  chunks: Array<{ text: string; start: number }>
+): Array<{ pageStart: number; pageEnd: number }> {
+  const pageOffsets: number[] = [];
+  let offset = 0;
+  for (const page of pages) {
+    pageOffsets.push(offset);
+    offset += page.text.length + 2;
+  }
+
+  const pageAt = (position: number): number => {
+    let i = pageOffsets.length - 1;
+    while (i > 0 && pageOffsets[i] > position) i--;
+    return pages[i].pageNumber;
+  };
+
+  return chunks.map(chunk => ({
+    pageStart: pageAt(chunk.start),
+    pageEnd: pageAt(Math.max(chunk.start, chunk.start + chunk.text.length - 1)),
+  }));
+}
+
+// Pinecone rejects null metadata values, so only the labels that are set are stored
+function labelMetadata(labels: DocumentLabels = {}): Record<string, string | string[]> {
+  return {
+    ...(labels.collection && { collection: labels.collection }),
+    ...(labels.path && { path: labels.path }),
+    ...(labels.tags && labels.tags.length > 0 && { tags: labels.tags }),
+  };
+}
+
+// ISO 639-1 code of the content: a website's declared language (e.g. "de-CH"
+// is stored as "de"), otherwise the one detected in the text
+function languageMetadata(declared: string | null | undefined, text: string): { language?: string } {
+  const language = declared?.split(/[-_]/)[0].toLowerCase() || detectLanguage(text);
+  return language ? { language } : {};
+}
+
+// The date range filter compares numbers, so the document date is stored as
+// Unix seconds: the email's send date, the page's modification date, else now
+function dateMetadata(date: string | null | undefined): { documentDate: number } {
+  const time = date ? Date.parse(date) : NaN;
+  return { documentDate: Math.floor((isNaN(time) ? Date.now() : time) / 1000) };
+}
+
+// Pinecone metadata filter for the search filters, or undefined for none.
+// Chunks stored before a field was introduced do not match filters on it.
+function metadataFilter(filters: SearchFilters): Record<string, unknown> | undefined {
+  const conditions: Record<string, unknown>[] = [];
+  const anyOf = (field: string, values?: string[]) => {
+    if (values && values.length > 0) {
+      conditions.push({ [field]: { $in: values } });
+    }
+  };
+
+  anyOf('documentId', filters.documentIds);
+  anyOf('source', filters.sourceTypes);
+  // On list fields, $in matches chunks with at least one of the tags
+  anyOf('tags', filters.tags);
+  anyOf('collection', filters.collections);
+  anyOf('language', filters.languages);
+
+  if (filters.dateFrom) {
+    conditions.push({ documentDate: { $gte: Date.parse(`${filters.dateFrom}T00:00:00Z`) / 1000 } });
+  }
+  if (filters.dateTo) {
+    conditions.push({ documentDate: { $lte: Date.parse(`${filters.dateTo}T23:59:59Z`) / 1000 } });
+  }
+
+  if (conditions.length === 0) {
+    return undefined;
+  }
+  return conditions.length === 1 ? conditions[0] : { $and: conditions };
+}
+
+// Sender, recipients, subject and date of an email, for the email's own
+// chunks and those of its attachments
+function emailMetadata(email?: EmailHeaders): Record<string, string | string[]> {
+  if (!email) {
+    return {};
+  }
+  return {
+    emailSubject: email.subject,
+    emailFrom: email.from,
+    emailTo: email.to,
+    ...(email.date && { emailDate: email.date }),
+  };
+}
+
+// Reciprocal rank fusion of the hybrid search results of several queries,
+// normalized so a chunk ranked first for every query scores 1. A chunk keeps
+// the best vector and keyword scores any of the queries found it with.
+function fuseRankings(rankings: RetrievedChunk[][]): RetrievedChunk[] {
+  const chunks = new Map<string, RetrievedChunk>();
+  const maxScore = rankings.length / (RRF_K + 1);
+
+  for (const ranking of rankings) {
+    ranking.forEach(({ document, vectorScore, keywordScore }, rank) => {
+      const id = document.id ?? document.pageContent;
+      const fused = 1 / (RRF_K + rank + 1) / maxScore;
+      const chunk = chunks.get(id);
+
+      if (!chunk) {
+        chunks.set(id, { document, score: fused, vectorScore, keywordScore });
+        return;
+      }
+      chunk.score += fused;
+      chunk.vectorScore = maxDefined(chunk.vectorScore, vectorScore);
+      chunk.keywordScore = maxDefined(chunk.keywordScore, keywordScore);
+    });
+  }
+
+  return [...chunks.values()].sort((a, b) => b.score - a.score);
+}
+
+function maxDefined(a: number | undefined, b: number | undefined): number | undefined {
+  return a === undefined ? b : b === undefined ? a : Math.max(a, b);
+}
+
+// Whether chunks are picked by more than their rank (see DocumentProcessor.selectChunks)
+function diversifies({
+  mmrLambda = DEFAULT_RETRIEVAL_SETTINGS.mmrLambda,
+  maxChunksPerDocument = DEFAULT_RETRIEVAL_SETTINGS.maxChunksPerDocument,
+}: RetrievalOptions): boolean {
+  return mmrLambda < 1 || maxChunksPerDocument > 0;
+}
+
+// Chunks stored before document IDs existed are told apart by filename
+function documentKey({ document }: RetrievedChunk): string {
+  return String(document.metadata.documentId ?? document.metadata.filename ?? document.id);
+}
+
+function cosineSimilarity(a: number[], b: number[] | undefined): number {
+  if (!b || a.length !== b.length) {
+    return 0;
+  }
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// Chunks that follow each other in the same document version become one
+// passage, with the overlap between them removed. A passage keeps the metadata
+// of its first chunk and belongs to the best match among its chunks; passages
+// are ordered by that match.
+function mergeAdjacentChunks(chunks: Array<{ document: Document; match: number }>): Array<{ document: Document; match: number }> {
+  const sorted = [...chunks].sort((a, b) => {
+    const { documentId: idA = '', revision: revisionA = '', chunkIndex: indexA = 0 } = a.document.metadata;
+    const { documentId: idB = '', revision: revisionB = '', chunkIndex: indexB = 0 } = b.document.metadata;
+    return `${idA}#${revisionA}`.localeCompare(`${idB}#${revisionB}`) || indexA - indexB;
+  });
+  const passages: Array<{ chunks: Document[]; match: number }> = [];
+
+  for (const { document, match } of sorted) {
+    const passage = passages[passages.length - 1];
+    const last = passage?.chunks[passage.chunks.length - 1];
+
+    if (
+      last?.metadata.documentId &&
+      last.metadata.documentId === document.metadata.documentId &&
+      last.metadata.revision === document.metadata.revision &&
+      last.metadata.chunkIndex + 1 === document.metadata.chunkIndex
+    ) {
+      passage.chunks.push(document);
+      passage.match = Math.min(passage.match, match);
+    } else {
+      passages.push({ chunks: [document], match });
+    }
+  }
+
+  return passages
+    .sort((a, b) => a.match - b.match)
+    .map(({ chunks: [first, ...rest], match }) => {
+      let text = first.pageContent;
+      let headingPath = first.metadata.headingPath;
+      for (const chunk of rest) {
+        const newText = withoutOverlap(text, chunk.pageContent);
+        if (chunk.metadata.headingPath !== headingPath) {
+          // Chunks from a different section keep their heading
+          text = `${text}\n\n${withHeadingPath(newText.trim(), chunk.metadata.headingPath)}`;
+        } else {
+          text = newText === chunk.pageContent ? `${text}\n\n${newText}` : text + newText;
+        }
+        headingPath = chunk.metadata.headingPath;
+      }
+      return { document: new Document({ id: first.id, pageContent: text, metadata: first.metadata }), match };
+    });
+}
+
+// The second of two consecutive chunks without the text it repeats from the
+// end of the first (the chunk overlap)
+function withoutOverlap(first: string, second: string): string {
+  const head = second.slice(0, MIN_CHUNK_OVERLAP);
+  let position = head.length < MIN_CHUNK_OVERLAP ? -1 : first.indexOf(head, Math.max(0, first.length - second.length));
+
+  // The earliest position where the rest of the first chunk starts the second is the longest overlap
+  while (position !== -1) {
+    if (second.startsWith(first.slice(position))) {
+      return second.slice(first.length - position);
+    }
+    position = first.indexOf(head, position + 1);
+  }
+  return second;
+}
+
+// Reranked chunks need the reranker's minimum score. Otherwise a chunk needs
+// a minimum similarity or a minimum BM25 score.
+function isRelevant(chunk: RetrievedChunk, options: RetrievalOptions): boolean {
+  const reranker = getReranker(options.reranker ?? DEFAULT_RETRIEVAL_SETTINGS.reranker);
+  if (reranker && chunk.rerankScore !== undefined) {
+    return chunk.rerankScore >= reranker.minScore;
+  }
+  return (chunk.keywordScore ?? 0) >= MIN_KEYWORD_SCORE || (chunk.vectorScore ?? 0) > MIN_CONTEXT_SCORE;
+}
+
+// Passages are labelled with how to cite them, which the text alone does not
+// tell: emails by sender and date, other documents by filename and pages
+function formatContextChunk({ document }: RetrievedChunk): string {
+  const { metadata } = document;
+  const source = formatEmailCitation(metadata)
+    ?? [metadata.filename, formatPageRange(metadata.pageStart, metadata.pageEnd)].filter(Boolean).join(', ');
+  return `[${source}]\n${withHeadingPath(document.pageContent, metadata.headingPath)}`;
+}
+
+// Chunks cut from OCR'd pages are flagged with the lowest confidence among
+// those pages, so they can be filtered out or marked in the sources
+function ocrMetadata(
+  pages: PDFPage[],
+  { pageStart, pageEnd }: { pageStart: number; pageEnd: number }
+): { ocr?: true; ocrConfidence?: number } {
+  const confidences = pages
+    .filter(page => page.pageNumber >= pageStart && page.pageNumber <= pageEnd && page.ocrConfidence !== undefined)
+    .map(page => page.ocrConfidence as number);
+
+  return confidences.length > 0 ? { ocr: true, ocrConfidence: Math.min(...confidences) } : {};
+}
+
+function hashContent(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+// Covers everything that is embedded, so re-chunking with new headings re-embeds
+function createRevision(chunks: Document[]): string {
+  const hash = createHash('sha256');
+  chunks.forEach(chunk => hash.update(withHeadingPath(chunk.pageContent, chunk.metadata.headingPath)).update('\0'));
+  return hash.digest('hex').slice(0, 16);
 }
 
 // Export a singleton instance
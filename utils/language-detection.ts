@@ -0,0 +1,45 @@
+// Frequent function words per language. Counting them is enough to tell the
+// languages of the knowledge base apart, without a language model.
+const STOPWORDS: Record<string, string[]> = {
+  de: ['der', 'die', 'das', 'und', 'ist', 'nicht', 'mit', 'den', 'von', 'zu', 'sich', 'des', 'auf', 'für', 'eine', 'ein', 'dem', 'auch', 'oder', 'wird', 'werden', 'nach', 'bei', 'wenn', 'durch'],
+  fr: ['le', 'la', 'les', 'et', 'est', 'des', 'une', 'du', 'dans', 'pour', 'que', 'qui', 'pas', 'sur', 'au', 'par', 'avec', 'sont', 'ou', 'aux', 'cette', 'être', 'il', 'peut', 'selon'],
+  it: ['il', 'di', 'che', 'la', 'e', 'per', 'del', 'della', 'non', 'sono', 'una', 'con', 'gli', 'le', 'dei', 'delle', 'nel', 'alla', 'è', 'da', 'o', 'può', 'essere', 'questo', 'secondo'],
+  // Not 'or': "OR" is the Swiss Code of Obligations, which keyword search must find
+  en: ['the', 'and', 'of', 'to', 'is', 'in', 'that', 'for', 'it', 'with', 'as', 'are', 'on', 'be', 'this', 'by', 'were', 'not', 'from', 'at', 'which', 'an', 'have', 'was', 'can'],
+};
+
+const STOPWORD_SETS = Object.fromEntries(
+  Object.entries(STOPWORDS).map(([language, words]) => [language, new Set(words)])
+);
+
+const ALL_STOPWORDS = new Set(Object.values(STOPWORDS).flat());
+
+// True for the frequent function words of any of the languages, which carry
+// no meaning for keyword search
+export function isStopword(word: string): boolean {
+  return ALL_STOPWORDS.has(word);
+}
+
+// Only the beginning of long documents is looked at
+const SAMPLE_LENGTH = 20000;
+const MIN_WORDS = 20;
+// Share of the words that must be stopwords of the best language
+const MIN_STOPWORD_SHARE = 0.05;
+
+// ISO 639-1 code of the text's main language (de, fr, it or en), or null if
+// the text is too short or matches none of them
+export function detectLanguage(text: string): string | null {
+  const words = text.slice(0, SAMPLE_LENGTH).toLowerCase().match(/\p{L}+/gu) ?? [];
+
+  if (words.length < MIN_WORDS) {
+    return null;
+  }
+
+  const scores = Object.entries(STOPWORD_SETS).map(([language, stopwords]) => ({
+    language,
+    count: words.filter(word => stopwords.has(word)).length,
+  }));
+  const best = scores.sort((a, b) => b.count - a.count)[0];
+
+  return best.count / words.length >= MIN_STOPWORD_SHARE ? best.language : null;
+}
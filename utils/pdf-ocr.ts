@@ -0,0 +1,166 @@
+import { copyFile, mkdir } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { createWorker, OEM, type Worker } from 'tesseract.js';
+
+// The pdf.js build pdf-parse uses internally
+const PDFJS = require('pdf-parse/lib/pdf.js/v1.10.100/build/pdf.js');
+
+// German, French and Italian models installed from npm, so OCR never downloads anything
+const OCR_LANGUAGES = ['deu', 'fra', 'ita'];
+const LANGUAGE_PACKAGES_DIR = path.join(process.cwd(), 'node_modules', '@tesseract.js-data');
+const LANGUAGE_DATA_DIR = path.join(os.tmpdir(), 'tessdata');
+
+// Pages whose text layer has fewer characters than this are treated as scans
+export const MIN_TEXT_LAYER_CHARACTERS = 50;
+// Smaller images are logos or stamps rather than scanned pages
+const MIN_IMAGE_PIXELS = 300 * 300;
+
+// pdf.js operator codes of the image painting operators
+const PAINT_IMAGE_XOBJECT = 85;
+const PAINT_INLINE_IMAGE_XOBJECT = 86;
+
+// pdf.js ImageKind: pixel layouts of decoded images
+const GRAYSCALE_1BPP = 1;
+const RGB_24BPP = 2;
+const RGBA_32BPP = 3;
+
+export interface OCRPage {
+  pageNumber: number;
+  text: string;
+  // Tesseract's mean word confidence, 0 to 1
+  confidence: number;
+}
+
+interface DecodedImage {
+  width: number;
+  height: number;
+  kind: number;
+  data: Uint8Array | Uint8ClampedArray;
+}
+
+// Minimal shape of the pdf.js page API used to find a page's images
+interface PDFPageProxy {
+  getOperatorList(): Promise<{ fnArray: number[]; argsArray: unknown[][] }>;
+  objs: { get(id: string): DecodedImage | null };
+}
+
+interface PDFDocumentProxy {
+  getPage(pageNumber: number): Promise<PDFPageProxy>;
+  destroy(): void;
+}
+
+// Recognizes the text of the given (scanned) pages. Each page's largest image
+// is taken as the scan; pages without one are left out of the result.
+export async function recognizePDFPages(buffer: Buffer, pageNumbers: number[]): Promise<OCRPage[]> {
+  if (pageNumbers.length === 0) {
+    return [];
+  }
+
+  PDFJS.disableWorker = true;
+  // Let pdf.js decode JPEGs itself; there is no browser to hand them to
+  const doc: PDFDocumentProxy = await PDFJS.getDocument({
+    data: new Uint8Array(buffer),
+    nativeImageDecoderSupport: 'none',
+  });
+  let worker: Worker | null = null;
+
+  try {
+    const results: OCRPage[] = [];
+
+    for (const pageNumber of pageNumbers) {
+      const image = await findLargestImage(await doc.getPage(pageNumber));
+      if (!image) {
+        console.log(`OCR: page ${pageNumber} has no text layer and no scanned image`);
+        continue;
+      }
+
+      worker ??= await createOCRWorker();
+      const { data } = await worker.recognize(toPNM(image));
+      results.push({
+        pageNumber,
+        text: data.text.trim(),
+        confidence: Math.round(data.confidence) / 100,
+      });
+      console.log(`OCR: page ${pageNumber} recognized with ${Math.round(data.confidence)}% confidence`);
+    }
+
+    return results;
+  } catch (error) {
+    console.error('OCR error:', error);
+    throw new Error(`Failed to recognize scanned pages: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  } finally {
+    await worker?.terminate();
+    doc.destroy();
+  }
+}
+
+// Tesseract.js reads all models from one directory (passing the data itself
+// does not work for several languages), so the packaged files are gathered first
+async function createOCRWorker(): Promise<Worker> {
+  await mkdir(LANGUAGE_DATA_DIR, { recursive: true });
+  await Promise.all(
+    OCR_LANGUAGES.map(code =>
+      copyFile(
+        path.join(LANGUAGE_PACKAGES_DIR, code, '4.0.0_best_int', `${code}.traineddata.gz`),
+        path.join(LANGUAGE_DATA_DIR, `${code}.traineddata.gz`)
+      )
+    )
+  );
+
+  return createWorker(OCR_LANGUAGES, OEM.LSTM_ONLY, {
+    langPath: LANGUAGE_DATA_DIR,
+    gzip: true,
+    cacheMethod: 'none',
+  });
+}
+
+async function findLargestImage(page: PDFPageProxy): Promise<DecodedImage | null> {
+  const { fnArray, argsArray } = await page.getOperatorList();
+  let largest: DecodedImage | null = null;
+
+  fnArray.forEach((fn, i) => {
+    let image: DecodedImage | null = null;
+    if (fn === PAINT_IMAGE_XOBJECT) {
+      image = page.objs.get(argsArray[i][0] as string);
+    } else if (fn === PAINT_INLINE_IMAGE_XOBJECT) {
+      image = argsArray[i][0] as DecodedImage;
+    }
+
+    if (image?.data && image.width * image.height >= MIN_IMAGE_PIXELS &&
+        (!largest || image.width * image.height > largest.width * largest.height)) {
+      largest = image;
+    }
+  });
+
+  return largest;
+}
+
+// Binary PGM/PPM, which Tesseract reads without any image library
+function toPNM({ width, height, kind, data }: DecodedImage): Buffer {
+  if (kind === GRAYSCALE_1BPP) {
+    // Rows are padded to whole bytes; a set bit is white
+    const rowBytes = (width + 7) >> 3;
+    const pixels = Buffer.alloc(width * height);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const bit = data[y * rowBytes + (x >> 3)] & (0x80 >> (x & 7));
+        pixels[y * width + x] = bit ? 255 : 0;
+      }
+    }
+    return Buffer.concat([Buffer.from(`P5\n${width} ${height}\n255\n`), pixels]);
+  }
+
+  if (kind === RGB_24BPP || kind === RGBA_32BPP) {
+    const channels = kind === RGB_24BPP ? 3 : 4;
+    const pixels = Buffer.alloc(width * height * 3);
+    for (let i = 0; i < width * height; i++) {
+      pixels[i * 3] = data[i * channels];
+      pixels[i * 3 + 1] = data[i * channels + 1];
+      pixels[i * 3 + 2] = data[i * channels + 2];
+    }
+    return Buffer.concat([Buffer.from(`P6\n${width} ${height}\n255\n`), pixels]);
+  }
+
+  throw new Error(`Unsupported image format ${kind}`);
+}
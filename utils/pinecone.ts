@@ -14,6 +14,9 @@ export const pinecone = new Pinecone({
 
 export const index = pinecone.index(process.env.PINECONE_INDEX_NAME);
 
+// Single namespace for all documents
+export const KNOWLEDGE_BASE_NAMESPACE = 'knowledge-base';
+
 export interface DocumentChunk {
   id: string;
   text: string;
@@ -3,7 +3,7 @@ export const RAG_SYSTEM_PROMPT = `You are a helpful consultant answering legal a
 ## Instructions:
 
 1. **Primary Source**: Always prioritize information from the provided context when it's relevant to the user's question
-2. **Source Attribution**: When using information from the context, mention the source document (e.g., "According to [document name]...")
+2. **Source Attribution**: When using information from the context, mention the source document (e.g., "According to [document name]..."); cite emails and their attachments with the label in brackets (e.g., "Gemäss E-Mail von Anna Muster vom 3. März 2025...")
 3. **Accuracy**: Only make claims that are supported by the context or your general knowledge
 4. **Completeness**: Provide comprehensive answers that fully address the user's question
 5. **Clarity**: Structure your responses clearly with proper formatting when helpful
@@ -14,8 +14,11 @@ export const RAG_SYSTEM_PROMPT = `You are a helpful consultant answering legal a
 ## Context Format:
 When context is provided, it will be formatted as:
 [CONTEXT FROM KNOWLEDGE BASE]
-[Score: X.XXX] Content from document...
-[Score: X.XXX] Content from document...
+[Document name, p. 3]
+Content from a document, most relevant passages first...
+---
+[E-Mail von Anna Muster vom 3. März 2025]
+Content from an email or one of its attachments...
 
 [USER QUESTION]
 User's actual question...
@@ -53,4 +56,81 @@ export function formatContextForPrompt(results: Array<{ content: string; metadat
 ${result.content}`;
     })
     .join('\n\n---\n\n');
-} 
\ No newline at end of file
+}
+
+export const RERANK_SYSTEM_PROMPT = `You rate how well passages from a knowledge base of Swiss legal and real-estate documents answer a search query.
+
+Give every passage a score from 0 to 10:
+- 10: answers the query directly
+- 5: related to the query, but answers it only in part
+- 0: unrelated to the query
+
+Passages and queries may be in German, French, Italian or English. Rate the content, not the language.`;
+
+export function createRerankPrompt(query: string, passages: string[]): string {
+  return `[QUERY]
+${query}
+
+${passages.map((passage, i) => `[PASSAGE ${i}]\n${passage}`).join('\n\n')}`;
+}
+
+export const QUERY_REWRITE_SYSTEM_PROMPT = `You turn the latest question of a conversation into a standalone search query for a knowledge base of Swiss legal and real-estate documents.
+
+- Resolve references to earlier turns ("dafür", "that deadline", "the second point") with what they refer to
+- Keep legal terms, article numbers, case numbers and names exactly as written
+- Keep the language of the latest question
+- If the question already stands on its own, return it unchanged
+- Return only the query, without quotes or explanations`;
+
+export function createQueryRewritePrompt(history: Array<{ role: string; text: string }>, question: string): string {
+  return `[CONVERSATION]
+${history.map(turn => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.text}`).join('\n\n')}
+
+[LATEST QUESTION]
+${question}`;
+}
+
+export const MULTI_QUERY_SYSTEM_PROMPT = `You write alternative search queries for a knowledge base of Swiss legal and real-estate documents, to find passages a single query would miss.
+
+- Rephrase the question the way statutes, court decisions and contracts would put it, e.g. with the legal terms for everyday words
+- Each query should approach the question from a different angle
+- Keep article numbers, case numbers and names exactly as written
+- Keep the language of the question`;
+
+export function createMultiQueryPrompt(query: string, count: number): string {
+  return `Write ${count} alternative search queries for:
+
+${query}`;
+}
+
+export const HYDE_SYSTEM_PROMPT = `You write a short passage as it could appear in a Swiss legal or real-estate document (a statute, a court decision, a contract or a guide) that answers the question.
+
+- Write in the language of the question, in the style of such a document
+- Use the legal terms such a document would use
+- Keep it to one paragraph of at most 120 words
+- If you do not know the answer, write a plausible passage anyway; it is only used to search for real passages
+- Return only the passage`;
+
+export const HISTORY_SUMMARY_SYSTEM_PROMPT = `You summarize the beginning of a conversation between a user and an assistant answering questions about Swiss legal and real-estate topics, so the conversation can continue without it.
+
+- Keep the user's situation and the facts they gave (dates, amounts, places, names)
+- Keep the questions asked and the gist of the answers, with the documents, articles and deadlines they cited
+- Leave out greetings and repetitions
+- Write in the language of the conversation, at most 150 words`;
+
+export function createHistorySummaryPrompt(history: Array<{ role: string; text: string }>): string {
+  return `[CONVERSATION]
+${history.map(turn => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.text}`).join('\n\n')}`;
+}
+
+// The system prompt, with the summary of earlier messages that were left out
+export function withConversationSummary(systemPrompt: string, summary?: string): string {
+  if (!summary) {
+    return systemPrompt;
+  }
+
+  return `${systemPrompt}
+
+## Earlier Conversation (summary):
+${summary}`;
+}
@@ -0,0 +1,120 @@
+import { generateObject, generateText, UIMessage } from 'ai';
+import { openai } from '@ai-sdk/openai';
+import { z } from 'zod';
+import {
+  createMultiQueryPrompt,
+  createQueryRewritePrompt,
+  HYDE_SYSTEM_PROMPT,
+  MULTI_QUERY_SYSTEM_PROMPT,
+  QUERY_REWRITE_SYSTEM_PROMPT,
+} from './prompts';
+import type { ContextSource } from './langchain-processing';
+
+// Metadata the chat API sends with each answer
+export interface ChatMessageMetadata {
+  // Standalone query the answer's context was retrieved with, when it differs
+  // from the question as asked
+  searchQuery?: string;
+  // Paraphrases or hypothetical answer the context was also searched with, in
+  // the multi-query and HyDE retrieval modes
+  generatedQueries?: string[];
+  // The chunks the answer's context was built from, for the sources sidebar
+  sources?: ContextSource[];
+}
+
+export type ChatMessage = UIMessage<ChatMessageMetadata>;
+
+const REWRITE_MODEL = 'gpt-4o-mini';
+// Earlier turns the rewrite looks at
+const MAX_HISTORY_MESSAGES = 6;
+// Long answers are cut; their beginning names what they are about
+const MAX_HISTORY_MESSAGE_LENGTH = 1000;
+// Paraphrases searched besides the query in the multi-query mode
+const MULTI_QUERY_COUNT = 3;
+
+export function messageText(message: UIMessage): string {
+  return message.parts
+    .filter(part => part.type === 'text')
+    .map(part => part.text)
+    .join(' ');
+}
+
+// Rewrites the latest user message into a query that can be searched without
+// the conversation, e.g. "und wie lange ist die Frist dafür?" after a question
+// about a rent reduction becomes "Frist für Mietzinsherabsetzung". The first
+// question of a conversation is returned as is, as is the question if the
+// rewrite fails.
+export async function condenseQuery(messages: UIMessage[]): Promise<string> {
+  const question = messages.length > 0 ? messageText(messages[messages.length - 1]).trim() : '';
+  const history = messages
+    .slice(0, -1)
+    .slice(-MAX_HISTORY_MESSAGES)
+    .map(message => ({ role: message.role, text: messageText(message).trim().slice(0, MAX_HISTORY_MESSAGE_LENGTH) }))
+    .filter(turn => turn.text);
+
+  if (!question || history.length === 0) {
+    return question;
+  }
+
+  try {
+    const { text } = await generateText({
+      model: openai(REWRITE_MODEL),
+      system: QUERY_REWRITE_SYSTEM_PROMPT,
+      prompt: createQueryRewritePrompt(history, question),
+      temperature: 0,
+    });
+
+    // Models sometimes wrap the query in quotes
+    const query = text.trim().replace(/^["„“]([\s\S]*)["“”]$/, '$1').trim();
+    console.log(`Rewrote "${question}" to "${query}"`);
+    return query || question;
+  } catch (error) {
+    console.error('Query rewriting failed, searching with the question as asked:', error);
+    return question;
+  }
+}
+
+// Paraphrases of the query in the wording of legal documents, e.g. "Mietzinsherabsetzung
+// wegen Mängeln" for "weniger Miete wegen Schimmel". Empty if generating them fails.
+export async function generateQueryVariants(query: string): Promise<string[]> {
+  try {
+    const { object } = await generateObject({
+      model: openai(REWRITE_MODEL),
+      system: MULTI_QUERY_SYSTEM_PROMPT,
+      prompt: createMultiQueryPrompt(query, MULTI_QUERY_COUNT),
+      schema: z.object({
+        queries: z.array(z.string()),
+      }),
+      temperature: 0.5,
+    });
+
+    const variants = [...new Set(object.queries.map(variant => variant.trim()))]
+      .filter(variant => variant && variant !== query)
+      .slice(0, MULTI_QUERY_COUNT);
+    console.log(`Generated ${variants.length} query variants for "${query}"`);
+    return variants;
+  } catch (error) {
+    console.error('Generating query variants failed:', error);
+    return [];
+  }
+}
+
+// A passage as a document answering the query could contain, whose embedding
+// is closer to the real passages than the question's (HyDE). Null if
+// generating it fails.
+export async function generateHypotheticalAnswer(query: string): Promise<string | null> {
+  try {
+    const { text } = await generateText({
+      model: openai(REWRITE_MODEL),
+      system: HYDE_SYSTEM_PROMPT,
+      prompt: query,
+      temperature: 0,
+    });
+
+    console.log(`Generated a hypothetical answer for "${query}"`);
+    return text.trim() || null;
+  } catch (error) {
+    console.error('Generating a hypothetical answer failed:', error);
+    return null;
+  }
+}
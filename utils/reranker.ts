@@ -0,0 +1,104 @@
+import { generateObject } from 'ai';
+import { openai } from '@ai-sdk/openai';
+import { z } from 'zod';
+import type { PreTrainedModel, PreTrainedTokenizer, Tensor } from '@huggingface/transformers';
+import type { RerankerType } from '@/lib/retrieval-settings';
+import { createRerankPrompt, RERANK_SYSTEM_PROMPT } from './prompts';
+
+// Scores how relevant retrieved passages are to the query, reading query and
+// passage together (unlike the embedding similarity, which compares them apart)
+export interface Reranker {
+  type: Exclude<RerankerType, 'none'>;
+  // Relevance of each passage, 0 to 1, in the order of the passages
+  score(query: string, passages: string[]): Promise<number[]>;
+  // Passages scoring below this are not used as context
+  minScore: number;
+}
+
+// Long passages are cut; the beginning is enough to judge relevance
+const MAX_PASSAGE_LENGTH = 1500;
+
+const LLM_RERANK_MODEL = 'gpt-4o-mini';
+
+// Multilingual cross-encoder (German, French, Italian, English) in ONNX format,
+// downloaded from the Hugging Face hub on first use; RERANKER_MODEL overrides it
+const LOCAL_RERANK_MODEL = process.env.RERANKER_MODEL || 'Xenova/mmarco-mMiniLMv2-L12-H384-v1';
+// Query-passage pairs scored per model call, to bound memory use on the CPU
+const LOCAL_BATCH_SIZE = 8;
+
+const llmReranker: Reranker = {
+  type: 'llm',
+  minScore: 0.3,
+  async score(query, passages) {
+    const { object } = await generateObject({
+      model: openai(LLM_RERANK_MODEL),
+      system: RERANK_SYSTEM_PROMPT,
+      prompt: createRerankPrompt(query, passages.map(passage => passage.slice(0, MAX_PASSAGE_LENGTH))),
+      schema: z.object({
+        scores: z.array(z.object({
+          passage: z.number().int(),
+          score: z.number().min(0).max(10),
+        })),
+      }),
+      temperature: 0,
+    });
+
+    // Passages the model skipped count as irrelevant
+    const scores = new Array<number>(passages.length).fill(0);
+    for (const { passage, score } of object.scores) {
+      if (passage >= 0 && passage < passages.length) {
+        scores[passage] = score / 10;
+      }
+    }
+    return scores;
+  },
+};
+
+let localModel: Promise<{ tokenizer: PreTrainedTokenizer; model: PreTrainedModel }> | null = null;
+
+// The model is loaded once per process and kept for later queries
+function loadLocalModel() {
+  localModel ??= (async () => {
+    const { AutoModelForSequenceClassification, AutoTokenizer } = await import('@huggingface/transformers');
+    console.log(`Loading reranking model ${LOCAL_RERANK_MODEL}`);
+    const [tokenizer, model] = await Promise.all([
+      AutoTokenizer.from_pretrained(LOCAL_RERANK_MODEL),
+      AutoModelForSequenceClassification.from_pretrained(LOCAL_RERANK_MODEL, { dtype: 'q8', device: 'cpu' }),
+    ]);
+    return { tokenizer, model };
+  })().catch(error => {
+    // Try again on the next query instead of failing for the process' lifetime
+    localModel = null;
+    throw error;
+  });
+  return localModel;
+}
+
+const localReranker: Reranker = {
+  type: 'local',
+  minScore: 0.1,
+  async score(query, passages) {
+    const { tokenizer, model } = await loadLocalModel();
+    const scores: number[] = [];
+
+    for (let i = 0; i < passages.length; i += LOCAL_BATCH_SIZE) {
+      const batch = passages.slice(i, i + LOCAL_BATCH_SIZE).map(passage => passage.slice(0, MAX_PASSAGE_LENGTH));
+      const inputs = tokenizer(new Array(batch.length).fill(query), {
+        text_pair: batch,
+        padding: true,
+        truncation: true,
+      });
+      const { logits } = await model(inputs) as { logits: Tensor };
+      // One relevance logit per pair
+      scores.push(...(logits.sigmoid().tolist() as number[][]).map(([score]) => score));
+    }
+
+    return scores;
+  },
+};
+
+const RERANKERS: Reranker[] = [llmReranker, localReranker];
+
+export function getReranker(type: RerankerType): Reranker | null {
+  return RERANKERS.find(reranker => reranker.type === type) ?? null;
+}
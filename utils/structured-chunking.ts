@@ -0,0 +1,407 @@
+import { PDFOutlineEntry, PDFPage } from './extractors';
+import type { ChunkContentType } from '@/lib/database.types';
+
+export const HEADING_PATH_SEPARATOR = ' > ';
+
+// Anything that splits a section's text into chunks (e.g. a LangChain text splitter)
+export interface TextSplitter {
+  splitText(text: string): Promise<string[]>;
+}
+
+export interface StructureOptions {
+  // PDF pages, joined with '\n\n' in `text`; needed to place outline entries
+  pages?: PDFPage[];
+  outline?: PDFOutlineEntry[];
+  // Articles longer than this are split further at Abs. and lit. markers
+  maxSectionLength?: number;
+  // Tables longer than this are split into groups of rows, each repeating the header
+  maxTableLength?: number;
+}
+
+export interface StructuredChunk {
+  text: string;
+  // Offset of the chunk in the full text
+  start: number;
+  // Headings the chunk sits under, outermost first, e.g. ['OR', 'Achter Titel: Die Miete', 'Art. 271']
+  headingPath: string[];
+  contentType: ChunkContentType;
+}
+
+interface Heading {
+  start: number;
+  level: number;
+  label: string;
+  article?: boolean;
+}
+
+interface Section {
+  start: number;
+  end: number;
+  path: string[];
+  article: boolean;
+}
+
+const MAX_HEADING_LINE = 120;
+const MAX_LABEL_LENGTH = 80;
+
+const MARKDOWN_HEADING = /^(#{1,6})[ \t]+(.+?)[ \t]*#*[ \t]*$/;
+const TABLE_ROW = /^\|.*\|$/;
+const TABLE_DELIMITER_ROW = /^\|(?:[ \t]*:?-{3,}:?[ \t]*\|)+$/;
+
+// Divisions of Swiss federal and cantonal acts (German, French, Italian), from
+// the outermost in. Articles sit below all of them. Only ordinal words,
+// numerals and roman numerals count, so prose such as "Dieser Abschnitt
+// regelt ..." or "Section des baux à loyer" is not taken for a heading.
+const GERMAN_ORDINAL = '(?:(?:(?:Ein|Zwei|Drei|Vier|Fünf|Sechs|Sieben|Acht|Neun)und)?(?:zwanzig|dreissig|dreißig|vierzig)st' +
+  '|(?:Zwanzig|Dreissig|Dreißig|Vierzig)st|(?:Drei|Vier|Fünf|Sech|Sieb|Acht|Neun)zehnt' +
+  '|Erst|Zweit|Dritt|Viert|Fünft|Sechst|Sieb(?:en)?t|Acht|Neunt|Zehnt|Elft|Zwölft)e[rs]?';
+const ORDINAL = `(?:${GERMAN_ORDINAL}|\\d+\\.|[IVXLC]+\\.)`;
+// "Chapitre 2", "Titre premier", "Titre huitième", "Capo I", "Titolo secondo"
+const ROMANCE_ORDINAL = '(?:\\d+[a-zè]{0,3}|[IVXLC]+|Ier|premi(?:er|ère)|seconde?|[a-zé]+ième' +
+  '|prim[oa]|second[oa]|terz[oa]|quart[oa]|quint[oa]|sest[oa]|settim[oa]|ottav[oa]|non[oa]|decim[oa]|[a-z]+esim[oa])' +
+  '(?=[\\s:.,–-]|$)';
+const STATUTE_DIVISIONS: Array<{ pattern: RegExp; level: number }> = [
+  { pattern: new RegExp(`^${ORDINAL}\\s+(?:Teil|Buch)\\b|^(?:Livre|Partie|Libro|Parte)\\s+${ROMANCE_ORDINAL}`), level: 1 },
+  { pattern: new RegExp(`^${ORDINAL}\\s+Titel(?:bis|ter|quater)?\\b|^(?:Titre|Titolo)\\s+${ROMANCE_ORDINAL}`), level: 2 },
+  { pattern: new RegExp(`^${ORDINAL}\\s+Abteilung\\b|^(?:Sous-titre)\\s+${ROMANCE_ORDINAL}`), level: 3 },
+  { pattern: new RegExp(`^${ORDINAL}\\s+(?:Abschnitt|Kapitel)\\b|^(?:Chapitre|Section|Capitolo|Capo|Sezione)\\s+${ROMANCE_ORDINAL}`), level: 4 },
+];
+const ARTICLE_LEVEL = 5;
+
+// "Art. 269d", "Art. 6bis", "Article 12", "Art. 271a Titel"; not references
+// such as "Art. 271 OR ist anwendbar" or "Art. 12 Abs. 2"
+const ARTICLE_MARKER = /^(?:Art\.|Artikel|Article|Articolo)\s*(\d+[a-z]?(?:\s?(?:bis|ter|quater|quinquies|sexies|septies|octies|novies|decies))?)(?=\s|$)(.*)$/;
+const ARTICLE_REFERENCE = /^\s*(?:Abs\.|al\.|cpv\.|lit\.|let\.|Ziff\.|ch\.|Satz|[A-Z][A-Za-z]{0,6}[A-Z]\b)/;
+// What may follow the number on an article's own line: a short title such as
+// "A. Anfechtbarkeit" or "Disdetta", without sentence punctuation
+const ARTICLE_TITLE = /^\s*(?:[:–—-]\s*)?\p{Lu}[^,;?!]*$/u;
+const ARTICLE_CONTINUATION = /^\s*\p{Ll}/u;
+
+// Numbered paragraphs (Absätze) and letters (litterae) inside an article
+const PARAGRAPH_MARKER = /^(\d{1,2})(bis|ter|quater)?[ \t]+\S/;
+const LETTER_MARKER = /^([a-z])(?:\.|\))[ \t]+\S/;
+
+// Splits the text at its headings (Markdown '#' lines, PDF outline entries
+// and statute divisions and articles), then splits each section on its own,
+// so no chunk runs from one section into the next. Markdown tables become
+// chunks of their own, together with their caption.
+export async function splitStructured(
+  text: string,
+  splitter: TextSplitter,
+  options: StructureOptions = {}
+): Promise<StructuredChunk[]> {
+  const sections = buildSections(text, findHeadings(text, options)).flatMap(section =>
+    section.article && options.maxSectionLength && section.end - section.start > options.maxSectionLength
+      ? splitArticle(text, section, options.maxSectionLength)
+      : [section]
+  );
+
+  const chunks: StructuredChunk[] = [];
+
+  for (const section of sections) {
+    const sectionText = text.slice(section.start, section.end);
+
+    const splitProse = async (start: number, end: number) => {
+      const prose = sectionText.slice(start, end);
+      // Only the section's heading is left before a table; it is in the heading path already
+      const headingOnly = start === 0 && end < sectionText.length && section.path.length > 0 && !prose.trim().includes('\n');
+      if (!prose.trim() || headingOnly) {
+        return;
+      }
+
+      let cursor = 0;
+      for (const chunk of await splitter.splitText(prose)) {
+        const found = prose.indexOf(chunk, cursor);
+        const offset = found === -1 ? cursor : found;
+        cursor = offset + 1;
+        chunks.push({ text: chunk, start: section.start + start + offset, headingPath: section.path, contentType: 'text' });
+      }
+    };
+
+    let position = 0;
+    for (const table of findTables(sectionText)) {
+      await splitProse(position, table.start);
+      for (const part of splitTable(sectionText.slice(table.start, table.end), table.headerEnd, options.maxTableLength)) {
+        chunks.push({
+          text: part.text,
+          start: section.start + table.start + part.offset,
+          headingPath: section.path,
+          contentType: 'table',
+        });
+      }
+      position = table.end;
+    }
+    await splitProse(position, sectionText.length);
+  }
+
+  return chunks;
+}
+
+// Text to embed for a chunk: the heading path gives the chunk its context
+export function withHeadingPath(text: string, headingPath?: string): string {
+  return headingPath ? `${headingPath}\n\n${text}` : text;
+}
+
+// Sections of the text without splitting them any further, e.g. for
+// character-based chunkers that should not cross section boundaries
+export function splitIntoSections(text: string, options: StructureOptions = {}): Array<{ text: string; headingPath: string[] }> {
+  return buildSections(text, findHeadings(text, options))
+    .map(section => ({ text: text.slice(section.start, section.end), headingPath: section.path }));
+}
+
+function findHeadings(text: string, { pages, outline }: StructureOptions): Heading[] {
+  const headings: Heading[] = [];
+
+  if (pages?.length && outline?.length) {
+    headings.push(...locateOutline(text, pages, outline));
+  }
+
+  let inCodeBlock = false;
+  let offset = 0;
+  // PDF pages are joined with a blank line, so this covers page starts too
+  let previousLineBlank = true;
+
+  for (const rawLine of text.split('\n')) {
+    const start = offset;
+    offset += rawLine.length + 1;
+
+    const line = rawLine.trim();
+    const afterBlankLine = previousLineBlank;
+    previousLineBlank = !line;
+    if (line.startsWith('```')) {
+      inCodeBlock = !inCodeBlock;
+      continue;
+    }
+    if (inCodeBlock || !line || line.length > MAX_HEADING_LINE) {
+      continue;
+    }
+
+    const markdown = line.match(MARKDOWN_HEADING);
+    if (markdown) {
+      headings.push({
+        start,
+        level: markdown[1].length,
+        label: truncate(markdown[2]),
+        article: ARTICLE_MARKER.test(markdown[2]),
+      });
+      continue;
+    }
+
+    const article = line.match(ARTICLE_MARKER);
+    if (article && isArticleHeading(article[2], afterBlankLine)) {
+      headings.push({ start, level: ARTICLE_LEVEL, label: `Art. ${article[1].replace(/\s+/g, '')}`, article: true });
+      continue;
+    }
+
+    const division = STATUTE_DIVISIONS.find(({ pattern }) => pattern.test(line));
+    if (division) {
+      headings.push({ start, level: division.level, label: truncate(line) });
+    }
+  }
+
+  // Outline entries usually point at a heading line found above as well; keep one per position
+  return headings
+    .sort((a, b) => a.start - b.start)
+    .filter((heading, i, sorted) => i === 0 || sorted[i - 1].start !== heading.start);
+}
+
+// A line starting with an article marker is the article's heading if nothing
+// or a title follows the number. Anything else (e.g. the first paragraph run
+// into the heading line) counts only at the start of a block, so wrapped lines
+// and sentences such as "Art. 271 ist die Kündigung anfechtbar, wenn" do not.
+function isArticleHeading(rest: string, afterBlankLine: boolean): boolean {
+  if (ARTICLE_REFERENCE.test(rest) || ARTICLE_CONTINUATION.test(rest)) {
+    return false;
+  }
+  const title = rest.trim();
+  if (!title || (title.length <= MAX_LABEL_LENGTH && ARTICLE_TITLE.test(title) && !title.endsWith('.'))) {
+    return true;
+  }
+  return afterBlankLine;
+}
+
+// Places each outline entry at its title on the page it points to, or at the
+// top of that page if the title is not in the extracted text
+function locateOutline(text: string, pages: PDFPage[], outline: PDFOutlineEntry[]): Heading[] {
+  const pageOffsets = new Map<number, { start: number; end: number }>();
+  let offset = 0;
+  for (const page of pages) {
+    pageOffsets.set(page.pageNumber, { start: offset, end: offset + page.text.length });
+    offset += page.text.length + 2;
+  }
+
+  return outline.flatMap(entry => {
+    const page = pageOffsets.get(entry.pageNumber);
+    if (!page) return [];
+
+    const title = new RegExp(
+      entry.title.split(/\s+/).map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('\\s+'),
+      'i'
+    );
+    const match = title.exec(text.slice(page.start, page.end));
+    const position = match ? page.start + match.index : page.start;
+    const lineStart = text.lastIndexOf('\n', position - 1) + 1;
+
+    return [{
+      start: Math.max(lineStart, page.start),
+      level: entry.level,
+      label: truncate(entry.title),
+      article: ARTICLE_MARKER.test(entry.title),
+    }];
+  });
+}
+
+function buildSections(text: string, headings: Heading[]): Section[] {
+  const sections: Section[] = [];
+  const stack: Heading[] = [];
+
+  const push = (start: number, end: number) => {
+    // A heading directly followed by the next one only contributes to the path
+    const body = text.slice(start, end).split('\n').slice(stack.length > 0 ? 1 : 0).join('\n');
+    if (body.trim()) {
+      sections.push({
+        start,
+        end,
+        path: stack.map(heading => heading.label),
+        article: stack.length > 0 && !!stack[stack.length - 1].article,
+      });
+    }
+  };
+
+  if (headings.length === 0 || headings[0].start > 0) {
+    push(0, headings[0]?.start ?? text.length);
+  }
+
+  headings.forEach((heading, i) => {
+    while (stack.length > 0 && stack[stack.length - 1].level >= heading.level) {
+      stack.pop();
+    }
+    stack.push(heading);
+    push(heading.start, headings[i + 1]?.start ?? text.length);
+  });
+
+  return sections;
+}
+
+// Long articles are split at their numbered paragraphs (Abs.) and, if a
+// paragraph is still too long, at its letters (lit.)
+function splitArticle(text: string, section: Section, maxLength: number): Section[] {
+  const paragraphs = splitAtMarkers(text, section, PARAGRAPH_MARKER, match => `Abs. ${match[1]}${match[2] ?? ''}`, true);
+
+  return paragraphs.flatMap(paragraph =>
+    paragraph.end - paragraph.start > maxLength
+      ? splitAtMarkers(text, paragraph, LETTER_MARKER, match => `lit. ${match[1]}`, false)
+      : [paragraph]
+  );
+}
+
+// Markers must count up (1, 2, 3 or a, b, c) to tell them apart from lines
+// that merely start with a number, e.g. "30 Tagen" after a line break
+function splitAtMarkers(
+  text: string,
+  section: Section,
+  marker: RegExp,
+  label: (match: RegExpMatchArray) => string,
+  numeric: boolean
+): Section[] {
+  const boundaries: Array<{ start: number; label: string }> = [];
+  let expected = numeric ? 1 : 'a'.charCodeAt(0);
+  let offset = section.start;
+
+  for (const line of text.slice(section.start, section.end).split('\n')) {
+    const match = line.trim().match(marker);
+    if (match && offset > section.start) {
+      const value = numeric ? Number(match[1]) : match[1].charCodeAt(0);
+      // "2bis" follows 2 without advancing the count
+      if (value === expected || (numeric && match[2] && value === expected - 1)) {
+        boundaries.push({ start: offset, label: label(match) });
+        if (!match[2]) expected++;
+      }
+    }
+    offset += line.length + 1;
+  }
+
+  if (boundaries.length < 2) {
+    return [section];
+  }
+
+  // Text before the first marker (heading, marginal note) belongs to the first part
+  return boundaries.map((boundary, i) => ({
+    start: i === 0 ? section.start : boundary.start,
+    end: boundaries[i + 1]?.start ?? section.end,
+    path: [...section.path, boundary.label],
+    article: false,
+  }));
+}
+
+// Markdown tables (a header row followed by a delimiter row) in a section,
+// each extended upwards to a one-line caption paragraph right above it.
+// `headerEnd` is where the data rows begin, relative to the table's start.
+function findTables(text: string): Array<{ start: number; end: number; headerEnd: number }> {
+  const lines: Array<{ start: number; end: number; text: string }> = [];
+  let offset = 0;
+  for (const line of text.split('\n')) {
+    lines.push({ start: offset, end: offset + line.length, text: line.trim() });
+    offset += line.length + 1;
+  }
+
+  const tables: Array<{ start: number; end: number; headerEnd: number }> = [];
+
+  for (let i = 0; i < lines.length - 1; i++) {
+    if (!TABLE_ROW.test(lines[i].text) || !TABLE_DELIMITER_ROW.test(lines[i + 1].text)) {
+      continue;
+    }
+
+    let last = i + 1;
+    while (last + 1 < lines.length && TABLE_ROW.test(lines[last + 1].text)) {
+      last++;
+    }
+
+    const caption = lines[i - 2];
+    const hasCaption = i >= 2 && !lines[i - 1].text && !!caption.text &&
+      caption.text.length <= MAX_HEADING_LINE && !TABLE_ROW.test(caption.text) &&
+      (i === 2 || !lines[i - 3].text) &&
+      caption.start >= (tables[tables.length - 1]?.end ?? 0);
+    const start = hasCaption ? caption.start : lines[i].start;
+
+    tables.push({ start, end: lines[last].end, headerEnd: lines[i + 1].end + 1 - start });
+    i = last;
+  }
+
+  return tables;
+}
+
+// Tables that are too long are cut between rows; every part repeats the
+// caption and header rows
+function splitTable(table: string, headerEnd: number, maxLength?: number): Array<{ text: string; offset: number }> {
+  if (!maxLength || table.length <= maxLength || headerEnd >= table.length) {
+    return [{ text: table, offset: 0 }];
+  }
+
+  const header = table.slice(0, headerEnd);
+  const parts: Array<{ text: string; offset: number }> = [];
+  let rows: string[] = [];
+  let length = header.length;
+  let partOffset = 0;
+  let offset = headerEnd;
+
+  for (const row of table.slice(headerEnd).split('\n')) {
+    if (rows.length > 0 && length + row.length + 1 > maxLength) {
+      parts.push({ text: header + rows.join('\n'), offset: partOffset });
+      rows = [];
+      length = header.length;
+      partOffset = offset;
+    }
+    rows.push(row);
+    length += row.length + 1;
+    offset += row.length + 1;
+  }
+  parts.push({ text: header + rows.join('\n'), offset: partOffset });
+
+  return parts;
+}
+
+function truncate(label: string): string {
+  const clean = label.replace(/\s+/g, ' ').trim();
+  return clean.length > MAX_LABEL_LENGTH ? `${clean.slice(0, MAX_LABEL_LENGTH - 1)}…` : clean;
+}
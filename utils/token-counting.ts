@@ -0,0 +1,41 @@
+import { Tiktoken } from 'js-tiktoken/lite';
+import cl100k_base from 'js-tiktoken/ranks/cl100k_base';
+import o200k_base from 'js-tiktoken/ranks/o200k_base';
+
+export interface ModelLimits {
+  // Tokens of prompt and answer together
+  contextWindow: number;
+  maxOutputTokens: number;
+  encoding: 'o200k_base' | 'cl100k_base';
+}
+
+// The chat model answering questions
+export const CHAT_MODEL = 'gpt-4o';
+
+const MODEL_LIMITS: Record<string, ModelLimits> = {
+  'gpt-4o': { contextWindow: 128000, maxOutputTokens: 16384, encoding: 'o200k_base' },
+  'gpt-4o-mini': { contextWindow: 128000, maxOutputTokens: 16384, encoding: 'o200k_base' },
+  'gpt-4-turbo': { contextWindow: 128000, maxOutputTokens: 4096, encoding: 'cl100k_base' },
+};
+
+// Tokens a chat message costs besides its text (role and delimiters)
+export const MESSAGE_OVERHEAD_TOKENS = 4;
+
+const RANKS = { o200k_base, cl100k_base };
+const encoders = new Map<ModelLimits['encoding'], Tiktoken>();
+
+// Unknown models are counted like the chat model
+export function getModelLimits(model: string = CHAT_MODEL): ModelLimits {
+  return MODEL_LIMITS[model] ?? MODEL_LIMITS[CHAT_MODEL];
+}
+
+export function countTokens(text: string, model: string = CHAT_MODEL): number {
+  const { encoding } = getModelLimits(model);
+  let encoder = encoders.get(encoding);
+  if (!encoder) {
+    // Building the encoder parses its ranks, so it is kept for later calls
+    encoder = new Tiktoken(RANKS[encoding]);
+    encoders.set(encoding, encoder);
+  }
+  return encoder.encode(text).length;
+}
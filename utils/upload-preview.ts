@@ -0,0 +1,96 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ChunkingProfile, DocumentSourceType, UploadPreview } from '@/lib/database.types';
+import { toChunkingSettings } from '@/lib/chunking-profiles';
+import { documentProcessor, ExtractedDocument } from './langchain-processing';
+import { findDocumentByContentHash } from './document-catalog';
+import { detectLanguage } from './language-detection';
+
+export const PREVIEW_CHUNK_COUNT = 5;
+
+// Less text than this per PDF page usually means scanned pages without a text layer
+const MIN_CHARACTERS_PER_PAGE = 200;
+// Share of private-use, control, replacement and pictographic characters
+const MAX_UNUSUAL_CHARACTER_SHARE = 0.1;
+// Long enough that failing to recognize any language hints at garbled text
+const MIN_LANGUAGE_SAMPLE = 1000;
+
+// Splits extracted content with the chosen profile and summarizes the result,
+// so the user can check it before anything is embedded
+export async function previewUpload(
+  supabase: SupabaseClient,
+  {
+    filename,
+    sourceType,
+    extracted,
+    chunkingProfile,
+  }: {
+    filename: string;
+    sourceType: DocumentSourceType;
+    extracted: ExtractedDocument;
+    chunkingProfile: ChunkingProfile | null;
+  }
+): Promise<UploadPreview> {
+  const chunks = await documentProcessor.splitExtracted(extracted, toChunkingSettings(chunkingProfile));
+  const duplicate = await findDocumentByContentHash(supabase, extracted.contentHash);
+  const pageCount = sourceType === 'pdf' ? extracted.pages.length : null;
+  const language = extracted.language ?? detectLanguage(extracted.text);
+  const totalLength = chunks.reduce((sum, chunk) => sum + chunk.pageContent.length, 0);
+
+  return {
+    filename,
+    sourceType,
+    characters: extracted.text.length,
+    pageCount,
+    language,
+    totalChunks: chunks.length,
+    averageChunkLength: chunks.length > 0 ? Math.round(totalLength / chunks.length) : 0,
+    chunks: chunks.slice(0, PREVIEW_CHUNK_COUNT).map((chunk, index) => ({
+      index,
+      content: chunk.pageContent,
+      headingPath: chunk.metadata.headingPath,
+      pageStart: chunk.metadata.pageStart,
+      pageEnd: chunk.metadata.pageEnd,
+      ocrConfidence: chunk.metadata.ocrConfidence,
+      contentType: chunk.metadata.contentType,
+    })),
+    chunkingProfile: chunkingProfile?.name ?? null,
+    ...(duplicate && { duplicateOf: { id: duplicate.id, filename: duplicate.filename } }),
+    ...(extracted.attachments && { attachments: extracted.attachments.map(attachment => attachment.filename) }),
+    warnings: findExtractionProblems(extracted, pageCount, language),
+  };
+}
+
+function findExtractionProblems(
+  { text, pages }: ExtractedDocument,
+  pageCount: number | null,
+  language: string | null
+): string[] {
+  const warnings: string[] = [];
+
+  const ocrConfidences = pages.flatMap(page => (page.ocrConfidence !== undefined ? [page.ocrConfidence] : []));
+  if (ocrConfidences.length > 0) {
+    warnings.push(
+      `${ocrConfidences.length} page${ocrConfidences.length !== 1 ? 's were' : ' was'} scanned and recognized by OCR ` +
+        `(lowest confidence ${Math.round(Math.min(...ocrConfidences) * 100)}%); check the text for recognition errors`
+    );
+  }
+
+  if (pageCount && text.length / pageCount < MIN_CHARACTERS_PER_PAGE) {
+    warnings.push(
+      `Only about ${Math.round(text.length / pageCount)} characters per page were extracted; the PDF may consist of scanned pages`
+    );
+  }
+
+  const unusual = text.match(/[\p{Co}\p{So}\uFFFD\u0000-\u0008\u000E-\u001F]/gu)?.length ?? 0;
+  if (text.length > 0 && unusual / text.length > MAX_UNUSUAL_CHARACTER_SHARE) {
+    warnings.push(
+      `${Math.round((unusual / text.length) * 100)}% of the extracted characters are unusual symbols; the text may be garbled`
+    );
+  }
+
+  if (!language && text.length >= MIN_LANGUAGE_SAMPLE) {
+    warnings.push('No language could be recognized in the extracted text; it may be garbled');
+  }
+
+  return warnings;
+}
@@ -0,0 +1,312 @@
+import * as cheerio from 'cheerio';
+
+// Node types of the DOM cheerio builds (domhandler is not a direct dependency)
+type DomRoot = ReturnType<cheerio.CheerioAPI['root']>;
+type AnyNode = ReturnType<DomRoot['contents']>[number];
+type Element = ReturnType<DomRoot['children']>[number];
+
+export interface WebPageContent {
+  // Main content as structured text: Markdown-style headings, lists and tables
+  text: string;
+  title: string;
+  canonicalUrl: string;
+  language: string | null;
+  lastModified: string | null;
+}
+
+// Never content
+const REMOVED_ELEMENTS = [
+  'script', 'style', 'noscript', 'template', 'svg', 'canvas', 'iframe', 'object', 'embed',
+  'form', 'button', 'input', 'select', 'textarea', 'dialog',
+  '[hidden]', '[aria-hidden="true"]',
+];
+
+// Page chrome around the content
+const BOILERPLATE_ELEMENTS = [
+  'nav', 'aside', 'footer',
+  '[role="navigation"]', '[role="banner"]', '[role="contentinfo"]', '[role="complementary"]', '[role="search"]',
+  '[role="dialog"]', '[role="alertdialog"]',
+];
+
+// id/class hints, as in Mozilla's Readability
+const UNLIKELY_CANDIDATES = /cookie|consent|gdpr|banner|breadcrumb|nav|menu|footer|sidebar|social|share|sharing|skip|popup|modal|newsletter|related|advert|sponsor|promo|pagination|pager|toolbar|masthead|widget/i;
+const LIKELY_CANDIDATES = /article|content|main|body|text|post|entry|story|page|column|lex|gesetz/i;
+const POSITIVE_HINTS = /article|content|main|body|text|post|entry|story|blog|lex|gesetz/i;
+const NEGATIVE_HINTS = /comment|meta|footer|footnote|sidebar|widget|hidden|share|social|nav|menu|breadcrumb|teaser|related|promo/i;
+
+const BLOCK_ELEMENTS = new Set([
+  'address', 'article', 'blockquote', 'dd', 'div', 'dl', 'dt', 'figcaption', 'figure', 'header', 'hr', 'main',
+  'p', 'pre', 'section',
+]);
+
+const SCORED_ELEMENTS = 'p, pre, td, li, blockquote, dd';
+
+// Share of the page's text a candidate must hold to be used instead of the whole body
+const MIN_CANDIDATE_SHARE = 0.25;
+
+// Readability-style extraction: drops scripts and page chrome (navigation,
+// cookie banners, footers), picks the element holding the main content and
+// renders it with its headings, lists and tables intact.
+export function extractMainContent(html: string, url: string, lastModifiedHeader?: string | null): WebPageContent {
+  const $ = cheerio.load(html);
+  const metadata = extractPageMetadata($, url, lastModifiedHeader);
+
+  $(REMOVED_ELEMENTS.join(', ')).remove();
+  $('*').contents().filter((_, node) => node.type === 'comment').remove();
+
+  // Headers inside articles usually hold the article's title, so only the page header goes
+  $('header').filter((_, element) => $(element).closest('article, main, [role="main"]').length === 0).remove();
+  $(BOILERPLATE_ELEMENTS.join(', ')).remove();
+
+  $('body *').filter((_, element) => {
+    const hints = `${$(element).attr('id') ?? ''} ${$(element).attr('class') ?? ''}`;
+    return UNLIKELY_CANDIDATES.test(hints) && !LIKELY_CANDIDATES.test(hints) && !['body', 'main', 'article', 'table', 'tbody', 'tr', 'td', 'th'].includes(element.tagName);
+  }).remove();
+
+  const body = $('body').length > 0 ? $('body') : $.root();
+  const content = findMainContent($, body);
+
+  removeLinkLists($, content);
+
+  const text = normalizeStructuredText(renderChildren($, content.get(0)!));
+
+  return { text, ...metadata };
+}
+
+// Whole-document counterpart of extractMainContent for HTML that is all
+// content (uploaded HTML files, converted DOCX and Markdown)
+export function htmlToStructuredText(html: string): string {
+  const $ = cheerio.load(html);
+  $(REMOVED_ELEMENTS.join(', ')).remove();
+
+  const body: AnyNode = $('body').get(0) ?? $.root().get(0)!;
+  return normalizeStructuredText(renderChildren($, body));
+}
+
+function extractPageMetadata(
+  $: cheerio.CheerioAPI,
+  url: string,
+  lastModifiedHeader?: string | null
+): Omit<WebPageContent, 'text'> {
+  const meta = (selector: string) => $(selector).first().attr('content')?.trim() || null;
+
+  const title =
+    $('title').first().text().replace(/\s+/g, ' ').trim() ||
+    meta('meta[property="og:title"]') ||
+    $('h1').first().text().replace(/\s+/g, ' ').trim() ||
+    new URL(url).hostname;
+
+  let canonicalUrl = url;
+  const canonical = $('link[rel="canonical"]').attr('href') ?? meta('meta[property="og:url"]');
+  if (canonical) {
+    try {
+      canonicalUrl = new URL(canonical, url).href;
+    } catch {
+      // Keep the fetched URL
+    }
+  }
+
+  const language =
+    $('html').attr('lang')?.trim() ||
+    meta('meta[http-equiv="content-language" i]') ||
+    meta('meta[property="og:locale"]')?.replace('_', '-') ||
+    null;
+
+  const modified =
+    meta('meta[property="article:modified_time"]') ||
+    meta('meta[property="og:updated_time"]') ||
+    meta('meta[name="last-modified" i]') ||
+    meta('meta[name="dcterms.modified" i]') ||
+    meta('meta[name="date" i]') ||
+    lastModifiedHeader ||
+    null;
+
+  return { title, canonicalUrl, language, lastModified: toISODate(modified) };
+}
+
+function toISODate(value: string | null): string | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+// <main>/<article> when the page marks its content; otherwise the element whose
+// paragraphs score highest by text length, commas and class hints.
+function findMainContent($: cheerio.CheerioAPI, body: cheerio.Cheerio<AnyNode>): cheerio.Cheerio<AnyNode> {
+  const bodyLength = textLength($(body));
+  const marked = $('main, [role="main"]').length === 1
+    ? $('main, [role="main"]')
+    : $('article').length === 1 ? $('article') : null;
+
+  if (marked && textLength(marked) >= bodyLength * MIN_CANDIDATE_SHARE) {
+    return marked as cheerio.Cheerio<AnyNode>;
+  }
+
+  const scores = new Map<Element, number>();
+
+  $(body).find(SCORED_ELEMENTS).each((_, element) => {
+    const text = $(element).text().replace(/\s+/g, ' ').trim();
+    if (text.length < 25) return;
+
+    const score = 1 + text.split(/[,;]/).length + Math.min(Math.floor(text.length / 100), 3);
+    const parent = element.parent?.type === 'tag' ? element.parent : null;
+    const grandparent = parent?.parent?.type === 'tag' ? parent.parent : null;
+
+    if (parent) scores.set(parent, (scores.get(parent) ?? initialScore($, parent)) + score);
+    if (grandparent) scores.set(grandparent, (scores.get(grandparent) ?? initialScore($, grandparent)) + score / 2);
+  });
+
+  let best: Element | null = null;
+  let bestScore = 0;
+
+  for (const [element, score] of scores) {
+    // Link-heavy blocks are menus and teaser lists, not content
+    const adjusted = score * (1 - linkDensity($, element));
+    if (adjusted > bestScore) {
+      best = element;
+      bestScore = adjusted;
+    }
+  }
+
+  if (!best || textLength($(best)) < bodyLength * MIN_CANDIDATE_SHARE) {
+    return body;
+  }
+
+  // Content is often split over sibling blocks; step up while the parent adds little but more content
+  let candidate = best;
+  while (candidate.parent?.type === 'tag' && candidate.parent.tagName !== 'body' &&
+         textLength($(candidate)) < textLength($(candidate.parent)) * 0.6 &&
+         linkDensity($, candidate.parent) < 0.3 &&
+         (scores.get(candidate.parent) ?? 0) >= bestScore * 0.5) {
+    candidate = candidate.parent;
+  }
+
+  return $(candidate) as cheerio.Cheerio<AnyNode>;
+}
+
+function initialScore($: cheerio.CheerioAPI, element: Element): number {
+  const hints = `${$(element).attr('id') ?? ''} ${$(element).attr('class') ?? ''}`;
+  let score = 0;
+  if (POSITIVE_HINTS.test(hints)) score += 25;
+  if (NEGATIVE_HINTS.test(hints)) score -= 25;
+  if (['article', 'main', 'section'].includes(element.tagName)) score += 5;
+  if (element.tagName === 'div') score += 5;
+  return score;
+}
+
+function textLength(selection: cheerio.Cheerio<AnyNode>): number {
+  return selection.text().replace(/\s+/g, ' ').trim().length;
+}
+
+function linkDensity($: cheerio.CheerioAPI, element: Element): number {
+  const total = textLength($(element));
+  if (total === 0) return 0;
+  const linked = $(element).find('a').toArray().reduce((sum, link) => sum + textLength($(link)), 0);
+  return linked / total;
+}
+
+// Menus that survived inside the content (e.g. "on this page" link lists)
+function removeLinkLists($: cheerio.CheerioAPI, content: cheerio.Cheerio<AnyNode>): void {
+  content.find('ul, ol, div').each((_, element) => {
+    const items = $(element).find('li, a').length;
+    if (items >= 3 && linkDensity($, element) > 0.8 && $(element).find('p, table, h1, h2, h3, h4, h5, h6').length === 0) {
+      $(element).remove();
+    }
+  });
+}
+
+function renderChildren($: cheerio.CheerioAPI, node: AnyNode): string {
+  return 'children' in node ? node.children.map(child => renderNode($, child)).join('') : '';
+}
+
+function renderNode($: cheerio.CheerioAPI, node: AnyNode): string {
+  if (node.type === 'text') {
+    return node.data.replace(/\s+/g, ' ');
+  }
+
+  if (node.type !== 'tag') {
+    return '';
+  }
+
+  const tag = node.tagName;
+
+  if (/^h[1-6]$/.test(tag)) {
+    const heading = inlineText($, node);
+    return heading ? `\n\n${'#'.repeat(Number(tag[1]))} ${heading}\n\n` : '';
+  }
+
+  switch (tag) {
+    case 'br':
+      return '\n';
+    case 'pre':
+      return `\n\n${$(node).text().replace(/^\n+|\s+$/g, '')}\n\n`;
+    case 'ul':
+    case 'ol':
+      return `\n\n${renderList($, node)}\n\n`;
+    case 'table':
+      return `\n\n${renderTable($, node)}\n\n`;
+    case 'img':
+      return '';
+  }
+
+  const inner = renderChildren($, node);
+  return BLOCK_ELEMENTS.has(tag) ? `\n\n${inner}\n\n` : inner;
+}
+
+// "- item" / "1. item" lines; nested lists are indented by two spaces per level
+function renderList($: cheerio.CheerioAPI, list: Element): string {
+  const ordered = list.tagName === 'ol';
+  const start = Number($(list).attr('start') ?? 1) || 1;
+
+  return $(list).children('li').toArray()
+    .map((item, i) => {
+      const [first, ...rest] = normalizeStructuredText(renderChildren($, item))
+        .split('\n')
+        .filter(line => line.trim());
+      if (!first) return null;
+
+      const marker = ordered ? `${start + i}.` : '-';
+      return [`${marker} ${first}`, ...rest.map(line => `  ${line}`)].join('\n');
+    })
+    .filter(Boolean)
+    .join('\n');
+}
+
+// Markdown table; the first row is the header (the table's <th> row if it has one)
+function renderTable($: cheerio.CheerioAPI, table: Element): string {
+  const rows = $(table).find('tr').toArray()
+    // Skip rows of nested tables, they are rendered as part of their cell
+    .filter(row => $(row).closest('table').get(0) === table)
+    .map(row => $(row).children('th, td').toArray().map(cell =>
+      inlineText($, cell).replace(/\|/g, '\\|')
+    ))
+    .filter(cells => cells.some(Boolean));
+
+  if (rows.length === 0) return '';
+
+  const caption = inlineText($, $(table).children('caption').get(0));
+  const width = Math.max(...rows.map(cells => cells.length));
+  const pad = (cells: string[]) => [...cells, ...Array(width - cells.length).fill('')];
+  const line = (cells: string[]) => `| ${pad(cells).join(' | ')} |`;
+
+  return [
+    ...(caption ? [caption, ''] : []),
+    line(rows[0]),
+    line(Array(width).fill('---')),
+    ...rows.slice(1).map(line),
+  ].join('\n');
+}
+
+function inlineText($: cheerio.CheerioAPI, node: AnyNode | undefined): string {
+  return node ? $(node).text().replace(/\s+/g, ' ').trim() : '';
+}
+
+function normalizeStructuredText(text: string): string {
+  return text
+    .replace(/(\S)[ \t\u00A0]+/g, '$1 ')
+    .replace(/ +\n/g, '\n')
+    // Leading spaces only matter as indentation of nested list items
+    .replace(/\n +(?! *(?:-|\d+\.) )/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
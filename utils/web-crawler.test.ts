@@ -0,0 +1,227 @@
+import { promises as fs } from 'fs';
+import http from 'http';
+import { AddressInfo } from 'net';
+import path from 'path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CrawlOptions, DEFAULT_CRAWL_OPTIONS } from '@/lib/crawl-options';
+import { crawlWebsite, isInScope, parseRobotsTxt } from '@/utils/web-crawler';
+
+const FIXTURE_ROOT = path.join(__dirname, '__fixtures__', 'crawl-site');
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.txt': 'text/plain; charset=utf-8',
+  '.xml': 'application/xml; charset=utf-8',
+};
+
+// Static file server over the fixture site, like `python3 -m http.server`:
+// directories serve index.html and redirect to their trailing-slash URL
+function serveFixtureSite(requested: string[]): http.Server {
+  return http.createServer(async (request, response) => {
+    const pathname = decodeURIComponent(new URL(request.url ?? '/', 'http://localhost').pathname);
+    requested.push(pathname);
+
+    let file = path.join(FIXTURE_ROOT, path.normalize(pathname));
+    try {
+      if ((await fs.stat(file)).isDirectory()) {
+        if (!pathname.endsWith('/')) {
+          response.writeHead(301, { Location: `${pathname}/` }).end();
+          return;
+        }
+        file = path.join(file, 'index.html');
+      }
+      const body = await fs.readFile(file);
+      response.writeHead(200, { 'Content-Type': CONTENT_TYPES[path.extname(file)] ?? 'application/octet-stream' });
+      response.end(body);
+    } catch {
+      response.writeHead(404, { 'Content-Type': 'text/plain' }).end('Not found');
+    }
+  });
+}
+
+describe('crawlWebsite', () => {
+  const requested: string[] = [];
+  const server = serveFixtureSite(requested);
+  let origin = '';
+
+  beforeAll(async () => {
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requested.length = 0;
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    return () => vi.restoreAllMocks();
+  });
+
+  async function crawl(startPath: string, options: Partial<CrawlOptions> = {}) {
+    const pages: string[] = [];
+    const count = await crawlWebsite(`${origin}${startPath}`, { ...DEFAULT_CRAWL_OPTIONS, ...options }, page => {
+      pages.push(new URL(page.url).pathname);
+    });
+    return { pages, count };
+  }
+
+  it('crawls below the start directory, honouring robots.txt, the sitemap and robots meta tags', async () => {
+    const { pages, count } = await crawl('/de/');
+
+    expect(pages).toEqual([
+      '/de/',
+      '/de/from-sitemap.html',
+      '/de/a.html',
+      '/de/b.html',
+      '/de/noindex-child.html',
+    ]);
+    expect(count).toBe(pages.length);
+
+    // Disallowed, nofollow and binary links are never requested
+    expect(requested).not.toContain('/de/private/secret.html');
+    expect(requested).not.toContain('/de/nofollow.html');
+    expect(requested).not.toContain('/de/guide.pdf');
+    // Out of scope or deeper than maxDepth
+    expect(requested).not.toContain('/dex/page.html');
+    expect(requested).not.toContain('/fr/');
+    expect(requested).not.toContain('/de/c.html');
+    // Fetched for its links but not ingested
+    expect(requested).toContain('/de/noindex.html');
+  });
+
+  it('stops after maxPages pages', async () => {
+    const { pages, count } = await crawl('/de/', { maxPages: 2 });
+
+    expect(pages).toEqual(['/de/', '/de/from-sitemap.html']);
+    expect(count).toBe(2);
+  });
+
+  it('only fetches the start page at depth 0', async () => {
+    const { pages } = await crawl('/de/', { maxDepth: 0 });
+
+    expect(pages).toEqual(['/de/']);
+    expect(requested).toEqual(['/robots.txt', '/de/']);
+  });
+
+  it('ignores robots.txt when respectRobots is off', async () => {
+    const { pages } = await crawl('/de/', { respectRobots: false, useSitemap: false });
+
+    expect(pages).toContain('/de/private/secret.html');
+    expect(pages).not.toContain('/de/from-sitemap.html');
+    expect(requested).not.toContain('/robots.txt');
+  });
+
+  it('follows links anywhere on the host with domain scope', async () => {
+    const { pages } = await crawl('/de/', { scope: 'domain' });
+
+    expect(pages).toContain('/dex/page.html');
+    expect(pages).toContain('/fr/');
+    expect(pages).not.toContain('/de/private/secret.html');
+  });
+
+  it('treats a start path without a trailing slash as a directory', async () => {
+    const { pages } = await crawl('/de');
+
+    expect(pages).toContain('/de/');
+    expect(pages).toContain('/de/a.html');
+    expect(pages).not.toContain('/dex/page.html');
+    expect(requested).not.toContain('/dex/page.html');
+  });
+});
+
+describe('isInScope', () => {
+  const inScope = (url: string, start: string, scope: CrawlOptions['scope'] = 'path') =>
+    isInScope(new URL(url), new URL(start), scope);
+
+  it('keeps path scope below the start directory', () => {
+    expect(inScope('http://h/de/steuern/a.html', 'http://h/de/steuern/')).toBe(true);
+    expect(inScope('http://h/de/steuern/', 'http://h/de/steuern/')).toBe(true);
+    expect(inScope('http://h/de/a.html', 'http://h/de/steuern/')).toBe(false);
+  });
+
+  it('takes the directory of a start file', () => {
+    expect(inScope('http://h/de/steuern/a.html', 'http://h/de/steuern/index.html')).toBe(true);
+    expect(inScope('http://h/de/other.html', 'http://h/de/steuern/index.html')).toBe(false);
+  });
+
+  it('treats a start path without a trailing slash as a directory', () => {
+    expect(inScope('http://h/de', 'http://h/de')).toBe(true);
+    expect(inScope('http://h/de/', 'http://h/de')).toBe(true);
+    expect(inScope('http://h/de/a.html', 'http://h/de')).toBe(true);
+    expect(inScope('http://h/dex', 'http://h/de')).toBe(false);
+    expect(inScope('http://h/dex/a.html', 'http://h/de')).toBe(false);
+  });
+
+  it('allows the whole host with domain scope', () => {
+    expect(inScope('http://h/fr/', 'http://h/de/', 'domain')).toBe(true);
+    expect(inScope('http://other/de/', 'http://h/de/', 'domain')).toBe(false);
+    expect(inScope('http://h:8080/de/', 'http://h/de/', 'domain')).toBe(false);
+  });
+
+  it('only allows http and https', () => {
+    expect(inScope('https://h/de/a.html', 'http://h/de/')).toBe(true);
+    expect(inScope('ftp://h/de/a.html', 'http://h/de/', 'domain')).toBe(false);
+    expect(inScope('mailto:info@h', 'http://h/de/', 'domain')).toBe(false);
+  });
+});
+
+describe('parseRobotsTxt', () => {
+  const robotsUrl = 'https://h/robots.txt';
+  const allowed = (content: string, path: string) => parseRobotsTxt(content, robotsUrl).isAllowed(new URL(path, 'https://h'));
+
+  it('allows everything without rules', () => {
+    expect(allowed('', '/anything')).toBe(true);
+  });
+
+  it('prefers the group for our user agent over *', () => {
+    const content = [
+      'User-agent: *',
+      'Disallow: /',
+      '',
+      'User-agent: OtherBot',
+      'User-agent: NextRagChatCrawler',
+      'Disallow: /private/',
+    ].join('\n');
+
+    expect(allowed(content, '/public.html')).toBe(true);
+    expect(allowed(content, '/private/a.html')).toBe(false);
+  });
+
+  it('applies the longest matching rule and lets Allow win ties', () => {
+    const content = ['User-agent: *', 'Disallow: /docs/', 'Allow: /docs/public/', 'Allow: /same', 'Disallow: /same'].join('\n');
+
+    expect(allowed(content, '/docs/a.html')).toBe(false);
+    expect(allowed(content, '/docs/public/a.html')).toBe(true);
+    expect(allowed(content, '/same')).toBe(true);
+  });
+
+  it('supports * wildcards and the $ end anchor', () => {
+    const content = ['User-agent: *', 'Disallow: /*.php$', 'Disallow: /*?print='].join('\n');
+
+    expect(allowed(content, '/index.php')).toBe(false);
+    expect(allowed(content, '/index.php5')).toBe(true);
+    expect(allowed(content, '/page?print=1')).toBe(false);
+    expect(allowed(content, '/page?view=1')).toBe(true);
+  });
+
+  it('ignores comments and empty Disallow lines', () => {
+    const content = ['User-agent: * # everyone', 'Disallow: # nothing', 'Disallow: /tmp/ # scratch'].join('\n');
+
+    expect(allowed(content, '/')).toBe(true);
+    expect(allowed(content, '/tmp/a')).toBe(false);
+  });
+
+  it('caps Crawl-delay at 10 seconds', () => {
+    expect(parseRobotsTxt('User-agent: *\nCrawl-delay: 2', robotsUrl).crawlDelayMs).toBe(2000);
+    expect(parseRobotsTxt('User-agent: *\nCrawl-delay: 60', robotsUrl).crawlDelayMs).toBe(10000);
+  });
+
+  it('resolves sitemaps against the robots.txt URL', () => {
+    const policy = parseRobotsTxt('Sitemap: /sitemap.xml\nSitemap: https://cdn.h/other.xml', robotsUrl);
+
+    expect(policy.sitemaps).toEqual(['https://h/sitemap.xml', 'https://cdn.h/other.xml']);
+  });
+});
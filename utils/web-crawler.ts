@@ -0,0 +1,320 @@
+import * as cheerio from 'cheerio';
+import { CrawlOptions, CrawlScope } from '@/lib/crawl-options';
+
+export interface CrawledPage {
+  url: string;
+  depth: number;
+  html: string;
+  lastModified: string | null;
+}
+
+// Called for each fetched page; the crawl waits for it before fetching the next one
+export type PageCallback = (page: CrawledPage, index: number) => void | Promise<void>;
+
+export const CRAWLER_USER_AGENT = 'NextRagChatCrawler/1.0';
+
+const FETCH_TIMEOUT_MS = 15000;
+const MAX_CRAWL_DELAY_MS = 10000;
+const MAX_SITEMAPS = 10;
+
+// Links to these are never HTML, so they are not worth a request
+const SKIPPED_EXTENSIONS = /\.(pdf|docx?|xlsx?|pptx?|zip|gz|jpe?g|png|gif|svg|webp|ico|mp3|mp4|avi|mov|css|js|json|xml|rss)$/i;
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: RegExp;
+  length: number;
+}
+
+export interface RobotsPolicy {
+  isAllowed(url: URL): boolean;
+  crawlDelayMs: number;
+  sitemaps: string[];
+}
+
+// Breadth-first crawl from `startUrl`. Pages are handed to `onPage` one at a
+// time so callers can ingest them without holding the whole site in memory.
+export async function crawlWebsite(startUrl: string, options: CrawlOptions, onPage: PageCallback): Promise<number> {
+  const start = new URL(startUrl);
+  start.hash = '';
+  const inScope = (url: URL) => isInScope(url, start, options.scope);
+
+  const robots = options.respectRobots ? await fetchRobotsPolicy(start) : null;
+  const queue: Array<{ url: string; depth: number }> = [{ url: start.href, depth: 0 }];
+  const seen = new Set<string>([start.href]);
+
+  const enqueue = (url: URL, depth: number) => {
+    if (!seen.has(url.href) && inScope(url) && !SKIPPED_EXTENSIONS.test(url.pathname)) {
+      seen.add(url.href);
+      queue.push({ url: url.href, depth });
+    }
+  };
+
+  if (options.useSitemap && options.maxDepth > 0) {
+    const sitemapUrls = robots?.sitemaps.length ? robots.sitemaps : [new URL('/sitemap.xml', start).href];
+    const listed = await fetchSitemapUrls(sitemapUrls);
+    console.log(`Sitemap lists ${listed.length} URLs`);
+    listed.forEach(url => enqueue(url, 1));
+  }
+
+  let crawled = 0;
+  let lastFetch = 0;
+
+  while (queue.length > 0 && crawled < options.maxPages) {
+    const { url, depth } = queue.shift()!;
+
+    if (robots && !robots.isAllowed(new URL(url))) {
+      console.log(`Skipping ${url}: disallowed by robots.txt`);
+      continue;
+    }
+
+    const wait = (robots?.crawlDelayMs ?? 0) - (Date.now() - lastFetch);
+    if (wait > 0) {
+      await new Promise(resolve => setTimeout(resolve, wait));
+    }
+    lastFetch = Date.now();
+
+    const page = await fetchPage(url);
+    if (!page) {
+      continue;
+    }
+
+    // Redirects may leave the allowed scope or land on a page we already have
+    const finalUrl = new URL(page.url);
+    finalUrl.hash = '';
+    if (finalUrl.href !== url) {
+      if (!inScope(finalUrl) || seen.has(finalUrl.href)) {
+        continue;
+      }
+      seen.add(finalUrl.href);
+    }
+
+    const $ = cheerio.load(page.html);
+    const robotsMeta = ($('meta[name="robots"]').attr('content') ?? '').toLowerCase();
+
+    if (depth < options.maxDepth && !robotsMeta.includes('nofollow')) {
+      for (const link of extractLinks($, finalUrl)) {
+        enqueue(link, depth + 1);
+      }
+    }
+
+    if (robotsMeta.includes('noindex')) {
+      console.log(`Skipping ${finalUrl.href}: marked noindex`);
+      continue;
+    }
+
+    await onPage({ url: finalUrl.href, depth, html: page.html, lastModified: page.lastModified }, crawled);
+    crawled++;
+  }
+
+  console.log(`Crawl of ${start.href} finished: ${crawled} pages`);
+  return crawled;
+}
+
+export function isInScope(url: URL, start: URL, scope: CrawlScope): boolean {
+  if ((url.protocol !== 'http:' && url.protocol !== 'https:') || url.host !== start.host) {
+    return false;
+  }
+
+  if (scope === 'domain') {
+    return true;
+  }
+
+  // Directory of the start URL: /de/steuern/ for /de/steuern/, /de/steuern and
+  // /de/steuern/index.html. A last segment without a file extension is taken
+  // for a directory, so /de does not let in /dex.
+  const lastSegment = start.pathname.slice(start.pathname.lastIndexOf('/') + 1);
+  const prefix = /\.[a-z0-9]+$/i.test(lastSegment)
+    ? start.pathname.slice(0, start.pathname.length - lastSegment.length)
+    : start.pathname.replace(/\/?$/, '/');
+  return url.pathname === start.pathname || url.pathname.startsWith(prefix);
+}
+
+function extractLinks($: cheerio.CheerioAPI, pageUrl: URL): URL[] {
+  const base = $('base[href]').attr('href');
+  let baseUrl = pageUrl;
+  try {
+    if (base) baseUrl = new URL(base, pageUrl);
+  } catch {
+    // Ignore malformed <base> and resolve against the page URL
+  }
+
+  const links: URL[] = [];
+  $('a[href]').each((_, element) => {
+    const href = $(element).attr('href')!.trim();
+    const rel = ($(element).attr('rel') ?? '').toLowerCase();
+    if (!href || href.startsWith('#') || rel.includes('nofollow')) {
+      return;
+    }
+
+    try {
+      const url = new URL(href, baseUrl);
+      url.hash = '';
+      links.push(url);
+    } catch {
+      // Not a valid URL
+    }
+  });
+
+  return links;
+}
+
+async function fetchWithTimeout(url: string): Promise<Response> {
+  return fetch(url, {
+    headers: { 'User-Agent': CRAWLER_USER_AGENT },
+    redirect: 'follow',
+    signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+  });
+}
+
+async function fetchPage(url: string): Promise<{ url: string; html: string; lastModified: string | null } | null> {
+  try {
+    const response = await fetchWithTimeout(url);
+    const contentType = response.headers.get('content-type') ?? '';
+
+    if (!response.ok) {
+      console.warn(`Skipping ${url}: HTTP ${response.status}`);
+      return null;
+    }
+
+    if (!contentType.includes('text/html') && !contentType.includes('application/xhtml+xml')) {
+      console.log(`Skipping ${url}: not HTML (${contentType || 'no content type'})`);
+      return null;
+    }
+
+    return {
+      url: response.url || url,
+      html: await response.text(),
+      lastModified: response.headers.get('last-modified'),
+    };
+  } catch (error) {
+    console.warn(`Skipping ${url}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    return null;
+  }
+}
+
+export async function fetchRobotsPolicy(start: URL): Promise<RobotsPolicy> {
+  const robotsUrl = new URL('/robots.txt', start).href;
+
+  try {
+    const response = await fetchWithTimeout(robotsUrl);
+    // A missing robots.txt allows everything
+    if (!response.ok) {
+      return parseRobotsTxt('', robotsUrl);
+    }
+    return parseRobotsTxt(await response.text(), robotsUrl);
+  } catch (error) {
+    console.warn(`Could not fetch ${robotsUrl}:`, error instanceof Error ? error.message : error);
+    return parseRobotsTxt('', robotsUrl);
+  }
+}
+
+// Follows the rules of the most specific user-agent group (ours, else '*').
+// Among matching rules the longest pattern wins and Allow wins ties (RFC 9309).
+export function parseRobotsTxt(content: string, robotsUrl: string): RobotsPolicy {
+  const agentToken = CRAWLER_USER_AGENT.split('/')[0].toLowerCase();
+  const groups: Array<{ agents: string[]; rules: RobotsRule[]; crawlDelay?: number }> = [];
+  const sitemaps: string[] = [];
+  let current: (typeof groups)[number] | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      // Consecutive user-agent lines share one group
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+
+    lastWasAgent = false;
+
+    if (field === 'sitemap') {
+      try {
+        sitemaps.push(new URL(value, robotsUrl).href);
+      } catch {
+        // Ignore malformed sitemap URLs
+      }
+    } else if (current && (field === 'allow' || field === 'disallow') && value) {
+      current.rules.push({ allow: field === 'allow', pattern: robotsPattern(value), length: value.length });
+    } else if (current && field === 'crawl-delay' && !Number.isNaN(Number(value))) {
+      current.crawlDelay = Number(value);
+    }
+  }
+
+  const group =
+    groups.find(candidate => candidate.agents.some(agent => agent !== '*' && agentToken.includes(agent))) ??
+    groups.find(candidate => candidate.agents.includes('*'));
+  const rules = group?.rules ?? [];
+
+  return {
+    sitemaps,
+    crawlDelayMs: Math.min((group?.crawlDelay ?? 0) * 1000, MAX_CRAWL_DELAY_MS),
+    isAllowed(url: URL) {
+      const path = url.pathname + url.search;
+      const match = rules
+        .filter(rule => rule.pattern.test(path))
+        .sort((a, b) => b.length - a.length || Number(b.allow) - Number(a.allow))[0];
+      return match ? match.allow : true;
+    },
+  };
+}
+
+// robots.txt paths are prefixes with '*' wildcards and an optional '$' end anchor
+function robotsPattern(path: string): RegExp {
+  const anchored = path.endsWith('$');
+  const escaped = (anchored ? path.slice(0, -1) : path)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${escaped}${anchored ? '$' : ''}`);
+}
+
+// Reads <loc> entries from sitemaps, following sitemap indexes
+async function fetchSitemapUrls(sitemapUrls: string[]): Promise<URL[]> {
+  const pending = [...sitemapUrls];
+  const visited = new Set<string>();
+  const urls: URL[] = [];
+
+  while (pending.length > 0 && visited.size < MAX_SITEMAPS) {
+    const sitemapUrl = pending.shift()!;
+    if (visited.has(sitemapUrl)) continue;
+    visited.add(sitemapUrl);
+
+    try {
+      const response = await fetchWithTimeout(sitemapUrl);
+      if (!response.ok) continue;
+
+      const $ = cheerio.load(await response.text(), { xml: true });
+      const isIndex = $('sitemapindex').length > 0;
+
+      $('loc').each((_, element) => {
+        try {
+          const url = new URL($(element).text().trim(), sitemapUrl);
+          url.hash = '';
+          if (isIndex) {
+            pending.push(url.href);
+          } else {
+            urls.push(url);
+          }
+        } catch {
+          // Skip malformed entries
+        }
+      });
+    } catch (error) {
+      console.warn(`Could not fetch sitemap ${sitemapUrl}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  return urls;
+}
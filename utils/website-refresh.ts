@@ -0,0 +1,98 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { DocumentRecord } from '@/lib/database.types';
+import { documentProcessor } from './langchain-processing';
+import { listWebsitesDueForRefresh, saveDocumentContent, updateDocumentRecord } from './document-catalog';
+import { resolveChunkingProfile } from './chunking-profiles';
+import { indexChunks } from './keyword-index';
+import { toChunkingSettings } from '@/lib/chunking-profiles';
+
+export type RefreshOutcome = 'unchanged' | 'updated' | 'failed';
+
+export interface WebsiteRefreshResult {
+  id: string;
+  url: string;
+  outcome: RefreshOutcome;
+  chunks?: number;
+  error?: string;
+}
+
+// Websites refreshed per run, so a scheduled run stays within the route's time limit
+export const MAX_REFRESH_BATCH = 20;
+
+// Re-fetches a website document and compares the extracted content hash with
+// the stored one. Only a changed page is re-embedded; its new chunks replace
+// the old ones, so the document stays searchable throughout.
+export async function refreshWebsiteDocument(
+  supabase: SupabaseClient,
+  record: DocumentRecord
+): Promise<WebsiteRefreshResult> {
+  if (record.source_type !== 'website' || !record.url) {
+    throw new Error(`Document ${record.id} is not a website`);
+  }
+
+  const checkedAt = new Date().toISOString();
+
+  try {
+    const extracted = await documentProcessor.extractWebsite(record.url);
+
+    if (extracted.contentHash === record.content_hash) {
+      console.log(`Website ${record.url} is unchanged`);
+      await updateDocumentRecord(supabase, record.id, { last_checked_at: checkedAt, error: null });
+      return { id: record.id, url: record.url, outcome: 'unchanged' };
+    }
+
+    console.log(`Website ${record.url} changed, re-embedding`);
+    // Chunked with the same profile as before
+    const profile = record.chunking_profile_id
+      ? await resolveChunkingProfile(supabase, record.chunking_profile_id)
+      : null;
+    const result = await documentProcessor.processWebsite(record.url, {
+      documentId: record.id,
+      extracted,
+      chunking: toChunkingSettings(profile),
+      replace: true,
+      labels: { collection: record.collection, path: record.path, tags: record.tags },
+    });
+    // Only now, so a failed refresh keeps the text of the stored chunks
+    await saveDocumentContent(supabase, record.id, extracted)
+      .catch(error => console.error(`Failed to store text of document ${record.id}:`, error));
+    await indexChunks(supabase, record.id, result.documents)
+      .catch(error => console.error(`Failed to index keywords of document ${record.id}:`, error));
+
+    await updateDocumentRecord(supabase, record.id, {
+      filename: result.filename,
+      chunk_count: result.totalChunks,
+      content_hash: result.contentHash,
+      last_checked_at: checkedAt,
+      last_changed_at: checkedAt,
+      error: null,
+    });
+
+    return { id: record.id, url: record.url, outcome: 'updated', chunks: result.totalChunks };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`Failed to refresh website ${record.url}:`, error);
+
+    // The previous version stays in the knowledge base; the error shows on the upload page
+    await updateDocumentRecord(supabase, record.id, { last_checked_at: checkedAt, error: `Refresh failed: ${message}` })
+      .catch(catalogError => console.error('Failed to record refresh error:', catalogError));
+
+    return { id: record.id, url: record.url, outcome: 'failed', error: message };
+  }
+}
+
+// Refreshes the websites whose schedule is due, oldest check first
+export async function refreshDueWebsites(
+  supabase: SupabaseClient,
+  limit = MAX_REFRESH_BATCH
+): Promise<WebsiteRefreshResult[]> {
+  const due = await listWebsitesDueForRefresh(supabase, limit);
+  console.log(`Refreshing ${due.length} websites`);
+
+  const results: WebsiteRefreshResult[] = [];
+  for (const record of due) {
+    results.push(await refreshWebsiteDocument(supabase, record));
+  }
+
+  return results;
+}